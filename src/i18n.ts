@@ -0,0 +1,656 @@
+// -------------------------------------------------------------
+// Message catalogs (ko / en)
+// - Keys are grouped by feature ('card.*', 'list.*', ...); `{name}` placeholders are filled by t().
+// - ko is the source catalog: en must define every key (checked by the MessageKey type).
+// - Which locale a message uses is decided in index.ts (user vs channel locale).
+// -------------------------------------------------------------
+
+export type Locale = 'ko' | 'en';
+
+export const LOCALES: Locale[] = ['ko', 'en'];
+
+// Shown as-is in every locale
+export const LOCALE_NAMES: Record<Locale, string> = { ko: '한국어', en: 'English' };
+
+const ko = {
+    // Common
+    'common.error': '❌ 오류가 발생했습니다: {error}',
+    'common.botNotInChannel': '봇이 이 채널에 초대되지 않았습니다. 채널에서 `/invite @봇이름`을 입력하여 봇을 초대해 주세요!',
+    'common.none': '없음',
+    'common.unassigned': '미지정',
+    'common.unknown': '알 수 없음',
+    'common.select': '선택...',
+    'common.cancel': '취소',
+    'common.create': '만들기',
+    'common.link': '연결',
+    'common.title': '제목',
+    'common.description': '설명',
+    'common.titleRequired': '제목을 입력해주세요.',
+    'common.adminOnly': '❌ 채널 설정은 워크스페이스 관리자만 변경할 수 있습니다.',
+    'common.badTime': '❌ 시간은 `HH:MM` (24시간) 형식으로 입력해주세요. 예: `{example}`',
+    'common.badTimeZone': '❌ 알 수 없는 시간대입니다: `{timeZone}` (예: Asia/Seoul, UTC, America/Los_Angeles)',
+    'common.teamNotFound': '❌ Linear 팀({team})을 찾을 수 없습니다. Identifier를 확인해주세요.',
+    'common.noChannelTeam': '❌ 이 채널에 연결된 Linear 팀이 없습니다. `/이슈설정 팀 <팀키>`로 설정하거나 서버의 LINEAR_TEAM_ID를 설정해주세요.',
+    'common.teamScope': '{team} 팀',
+    'common.allTeams': '전체 팀',
+
+    // Issue fields (card fields, change kinds, modal labels)
+    'field.state': '상태',
+    'field.assignee': '담당자',
+    'field.priority': '우선순위',
+    'field.dueDate': '기한',
+    'field.labels': '라벨',
+    'field.cycle': '빌드',
+    'field.title': '제목',
+    'field.project': '프로젝트',
+    'field.estimate': '추정치',
+    'field.archive': '보관',
+    'field.comment': '댓글',
+
+    'priority.0': '없음',
+    'priority.1': '🔴 긴급',
+    'priority.2': '🟠 높음',
+    'priority.3': '🟡 보통',
+    'priority.4': '🔵 낮음',
+
+    // Files
+    'file.tooLarge': '📎 {name} (파일이 너무 커서 동기화하지 않았습니다)',
+    'file.uploadFailed': '📎 {name} (업로드 실패)',
+
+    // Linear -> Slack relay
+    'relay.comment': '💬 *새로운 댓글 ({user})*:\n{text}',
+    'relay.edited': '_(수정됨)_',
+    'relay.title': '✏️ *제목 변경*: ~{from}~ → {to}',
+    'relay.state': '🛠️ *상태 변경*: {change}',
+    'relay.assignee': '👤 *담당자 변경*: {change}',
+    'relay.priority': '🚩 *우선순위 변경*: {change}',
+    'relay.dueDate': '📅 *기한 변경*: {change}',
+    'relay.labels': '🏷️ *라벨 변경*: {change}',
+    'relay.cycle': '🏗️ *빌드 변경*: {change}',
+    'relay.project': '📁 *프로젝트 변경*: {change}',
+    'relay.estimate': '📏 *추정치 변경*: {change}',
+    'relay.archived': '🗄️ *이슈가 보관되었습니다*',
+    'relay.unarchived': '📤 *이슈 보관이 해제되었습니다*',
+    'relay.trashed': '🗑️ *이슈가 삭제되었습니다* (휴지통)',
+    'relay.restored': '♻️ *이슈가 휴지통에서 복원되었습니다*',
+    'relay.deleted': '🗑️ *이슈가 영구 삭제되었습니다*',
+    'relay.summary': '🔔 *{identifier} 변경 사항*{by}\n{changes}',
+    'relay.by': ' ({actor} 님)',
+
+    // Slack <-> Linear user matching
+    'match.linkMissing': '❌ 연결된 Linear 계정을 찾을 수 없습니다. `/리니어연결 <Linear 이메일>`로 다시 연결해주세요.',
+    'match.noEmail': '❌ Slack 프로필에서 이메일을 찾을 수 없습니다. `/리니어연결 <Linear 이메일>`로 계정을 연결해주세요.',
+    'match.noLinearUser': '❌ Linear에서 이메일({email})에 해당하는 사용자를 찾을 수 없습니다. 이메일이 다르다면 `/리니어연결 <Linear 이메일>`로 계정을 연결해주세요.',
+
+    // Issue card
+    'card.parent': '⬆️ 상위 이슈 {link}',
+    'card.children': '🧩 하위 이슈 {completed}/{total} 완료',
+    'card.moreDetails': '더 자세한 내용은 👉',
+    'card.openInLinear': '리니어에서 확인하기 🚀',
+    'card.whoResolves': '누가 해결할 이슈인가요?',
+    'card.assignToMe': '나에게 할당',
+    'card.pickAssignee': '할당할 팀원 선택...',
+    'card.pickState': '상태 변경...',
+    'card.changeState': '상태 변경',
+    'card.changeAssignee': '담당자 변경',
+    'card.reopen': '다시 열기',
+    'card.markDone': '처리완료',
+    'card.reopenPrompt': '이슈를 다시 열까요?',
+    'card.donePrompt': '이슈가 완료되었나요?',
+    'card.closedState': '✅ 이 이슈는 *{state}* 상태입니다.',
+
+    // Issue creation
+    'create.modalTitle': 'Linear 이슈 만들기',
+    'create.loading': '⏳ Linear에서 팀 정보를 불러오는 중...',
+    'create.cycleLabel': '빌드(사이클)',
+    'create.toolsTitle': '관리 도구',
+    'create.toolsMoved': '*관리 도구가 여기로 이동했습니다.*',
+    'sub.notInThread': '❌ 이슈 스레드의 답글에서만 하위 이슈를 만들 수 있습니다.',
+    'sub.noText': '❌ 텍스트가 없는 답글로는 하위 이슈를 만들 수 없습니다.',
+    'sub.created': '🧩 {user}님이 하위 이슈 *{issue}* {title} 을(를) 만들었습니다.',
+
+    // /이슈목록, /태그목록
+    'list.tag': '태그',
+    'list.unassigned': '담당자 미지정',
+    'list.overdue': '기한 초과',
+    'list.dueBefore': '기한 ~{date}',
+    'list.teamFilter': '팀: {team}',
+    'list.missingValue': '`{key}:` 뒤에 값을 입력해주세요.',
+    'list.badPriority': '알 수 없는 우선순위입니다: {value} (긴급, 높음, 보통, 낮음, 없음)',
+    'list.badDue': '기한은 `기한:YYYY-MM-DD` 또는 `기한:초과` 형식으로 입력해주세요.',
+    'list.badSort': '정렬은 우선순위, 기한, 업데이트 중 하나입니다.',
+    'list.badGroup': '그룹은 상태, 태그, 우선순위, 프로젝트 중 하나입니다.',
+    'list.unknownFilter': '알 수 없는 필터입니다: `{key}:`',
+    'list.noPriority': '우선순위 없음',
+    'list.noProject': '프로젝트 없음',
+    'list.header': '*{requester}님 요청: {who}의 {mode}별 활성 이슈 목록*',
+    'list.filters': '(필터: {filters})',
+    'list.title': '{mode}별 이슈 목록',
+    'list.threadTitle': '{mode}별 이슈 리스트',
+    'list.total': '총 {total}개의 이슈를 조회했습니다. (그룹 {groups}개) 자세한 내용은 스레드를 확인해주세요! 👇',
+    'list.assigneesNotFound': '❌ 지정한 사용자({users})를 Slack에서 찾지 못했어요.\n가능하면 슬랙에서 사용자 자동완성으로 멘션을 선택해서 <@U...> 형태로 입력해줘. 예: /이슈목록 <@U12345>\n(또는 봇에 users:read 권한이 없으면 @handle 매칭이 실패할 수 있어요.)',
+    'list.someAssigneesFailed': '⚠️ 일부 사용자는 매칭에 실패했어요: {users}\n가능하면 슬랙에서 멘션 자동완성으로 선택(<@U...>)해서 다시 시도해줘.',
+    'list.emptyFiltered': '✅ {who}: 조건({filters})에 맞는 이슈가 없습니다.',
+    'list.empty': '✅ {who}에게 할당된 진행 중 이슈가 없습니다.',
+    'list.emptyTag': '✅ 태그 "{tag}"에 해당하는 진행 중 이슈가 없습니다.',
+    'list.botNotInChannel': '봇이 이 채널에 초대되지 않았습니다. 채널에서 `/invite @봇이름`(Lenaer)로 초대한 뒤 다시 시도해주세요.',
+
+    // /이슈설정
+    'settings.off': '끔',
+    'settings.overview': '⚙️ *{channel} 채널 설정*\n• 팀: {team}\n• 알림: {relay}\n• 리마인더: {reminder}\n• 리액션: {reaction}\n• 언어: {locale}\n\n변경: `/이슈설정 팀 <팀키>` / `/이슈설정 팀 해제`\n알림: `/이슈설정 알림 끄기 <종류...>` / `/이슈설정 알림 켜기 <종류...>` / `/이슈설정 알림 전체`\n종류: {kinds}\n리마인더: `/이슈설정 리마인더 기한 <일>` / `/이슈설정 리마인더 방치 <일>` / `/이슈설정 리마인더 끄기|켜기`\n리액션: `/이슈설정 리액션 <:이모지:> <{workflows}|해제>`\n언어: `/이슈설정 언어 <ko|en|해제>`',
+    'settings.teamDefault': '기본값 (LINEAR_TEAM_ID{team})',
+    'settings.unknown': '❌ 알 수 없는 설정입니다. 예: `/이슈설정 팀 APP`, `/이슈설정 알림 끄기 라벨`',
+    'settings.teamMissing': '❌ 팀 키를 입력해주세요. 예: `/이슈설정 팀 APP`',
+    'settings.teamCleared': '✅ {user}님이 이 채널의 팀 설정을 해제했습니다. (기본 팀 사용)',
+    'settings.teamChanged': '✅ {user}님이 설정을 변경했습니다: 이 채널의 이슈는 이제 *{name}* (`{key}`) 팀으로 등록됩니다.',
+    'settings.relayAll': '모든 변경 알림 전달',
+    'settings.relayMuted': '끔 - {kinds}',
+    'settings.relayAllOn': '✅ {user}님이 이 채널의 모든 변경 알림을 켰습니다.',
+    'settings.relayUsage': '❌ 사용법: `/이슈설정 알림 끄기 <종류...>` / `/이슈설정 알림 켜기 <종류...>` / `/이슈설정 알림 전체`',
+    'settings.relayBadKinds': '❌ 알림 종류를 확인해주세요{unknown}. 사용 가능: {kinds}',
+    'settings.relayChanged': '✅ {user}님이 알림 설정을 변경했습니다: {settings}',
+    'settings.reminderDueSoon': '기한 {days}일 전부터',
+    'settings.reminderOverdue': '기한 지난 뒤',
+    'settings.reminderStale': '{days}일 이상 상태 변화 없음',
+    'settings.reminderStaleOff': '방치 알림 끔',
+    'settings.reminderUsage': '❌ 사용법: `/이슈설정 리마인더 기한 <일>` (0 = 기한 지난 뒤만) / `/이슈설정 리마인더 방치 <일>` (0 = 끔) / `/이슈설정 리마인더 끄기|켜기`',
+    'settings.reminderChanged': '✅ {user}님이 리마인더 설정을 변경했습니다: {settings}',
+    'settings.localeDefault': '기본값 ({locale})',
+    'settings.localeUsage': '❌ 사용법: `/이슈설정 언어 <ko|en>` / `/이슈설정 언어 해제`',
+    'settings.localeChanged': '✅ {user}님이 이 채널의 언어를 변경했습니다: {locale}',
+    'reaction.done': '완료',
+    'reaction.assign': '담당',
+    'reaction.create': '생성',
+    'reaction.none': '사용 안 함',
+    'reaction.usage': '❌ 사용법: `/이슈설정 리액션 <:이모지:> <{workflows}|해제>`',
+    'reaction.changed': '✅ {user}님이 리액션 설정을 변경했습니다: {settings}',
+    'reaction.noText': `❌ 텍스트가 없는 메시지로는 이슈를 만들 수 없습니다. 메시지 메뉴의 'Linear 이슈 만들기'를 사용해주세요.`,
+    'reaction.created': '🎫 {user}님의 리액션으로 *{identifier}* 이슈를 만들었습니다.',
+    'reaction.assigned': '👀 {user}님이 리액션으로 이 이슈를 담당합니다.',
+    'reaction.doneUndo': '✅ 리액션으로 완료 처리했습니다.',
+    'reaction.assignUndo': '👀 리액션으로 이 이슈를 나에게 할당했습니다.',
+    'reaction.error': '❌ 리액션 처리 중 오류가 발생했습니다: {error}',
+
+    // /리니어연결, thread links
+    'link.none': '연결된 Linear 계정 없음',
+    'link.noEmailMatch': '(Slack 이메일 {email}과 일치하는 Linear 사용자 없음)',
+    'link.explicit': '직접 연결',
+    'link.byEmail': '이메일 자동 매칭',
+    'link.usage': '연결: `/리니어연결 <Linear 이메일|이름>` / 해제: `/리니어연결 해제`\n관리자: `/리니어연결 <@사용자> <Linear 이메일|이름|해제>`',
+    'link.slackUserNotFound': '❌ Slack 사용자({user})를 찾지 못했어요. 멘션 자동완성으로 선택해주세요.',
+    'link.adminOnly': '❌ 다른 사용자의 연결은 워크스페이스 관리자만 변경할 수 있습니다.',
+    'link.unlinked': '✅ 연결을 해제했습니다. {link}',
+    'link.linearUserNotFound': '❌ Linear 사용자({user})를 찾을 수 없습니다. Linear 이메일 또는 표시 이름을 확인해주세요.',
+    'link.ownedByOther': '❌ *{name}* 계정은 {owner}님과 연결되어 있습니다. 관리자에게 요청해주세요.',
+    'link.linked': '✅ 연결했습니다. {link}',
+    'link.threadAlreadyLinked': '❌ 이 스레드는 이미 *{identifier}* 이슈와 연결되어 있습니다.',
+    'link.threadAlreadyLinkedInfo': 'ℹ️ 이 스레드는 이미 *{identifier}* 이슈와 연결되어 있습니다.',
+    'link.issueLinkedElsewhere': '❌ *{identifier}* 은(는) 이미 다른 스레드와 연결되어 있습니다{where}',
+    'link.threadTaken': '⚠️ 이 스레드는 이미 *{identifier}* 이슈와 연결되어 있어 다른 이슈는 연결할 수 없습니다.',
+    'link.modalTitle': '이슈 연결',
+    'link.issueLabel': '이슈',
+    'link.issueHint': '이슈 ID(APP-123) 또는 Linear 이슈 URL',
+    'link.issueRequired': '이슈 ID(APP-123) 또는 Linear 이슈 URL을 입력해주세요.',
+    'link.issueNotFound': '❌ Linear 이슈({identifier})를 찾을 수 없습니다.',
+
+    // /이슈검색
+    'search.usage': '❌ 검색어를 입력해주세요. 예: `/이슈검색 로그인 버그` / `/이슈검색 팀:APP 로그인` / `/이슈검색 팀:전체 로그인`',
+    'search.header': '🔎 *"{term}" 검색 결과* ({count}건, {scope})',
+    'search.title': '"{term}" 검색 결과 {count}건',
+    'search.empty': '🔎 "{term}"에 해당하는 이슈가 없습니다. ({scope})',
+    'search.open': '🔗 열기',
+    'search.postCard': '📌 채널에 카드 게시',
+    'search.linkThread': '🧵 스레드에 연결',
+    'search.threadExists': 'ℹ️ *{identifier}* 은(는) 이미 스레드가 있습니다{where}',
+    'search.goToThread': '스레드로 이동',
+    'search.linkThreadTitle': '스레드에 연결',
+    'search.threadLinkLabel': '스레드 링크',
+    'search.threadLinkHint': '스레드 메시지의 ⋮ 메뉴 → "링크 복사"로 복사한 주소를 붙여넣어 주세요.',
+    'search.badThreadLink': 'Slack 메시지 링크를 확인해주세요.',
+
+    // /이슈요약
+    'digest.header': '☀️ *{team} 데일리 요약* ({date})',
+    'digest.title': '☀️ {team} 데일리 요약 ({date})',
+    'digest.completedYesterday': '*✅ 어제 완료 ({count})*',
+    'digest.completedSinceFriday': '*✅ 지난 금요일~일요일 완료 ({count})*',
+    'digest.inProgress': '*🚧 진행 중 ({count})*',
+    'digest.newUnassigned': '*🆕 새 미지정 이슈 ({count})*',
+    'digest.schedule': '평일 *{time}* ({timeZone})에 게시',
+    'digest.notSubscribed': '구독하지 않음',
+    'digest.usage': '사용법: `/이슈요약 구독 [09:30] [Asia/Seoul]` / `/이슈요약 시간 10:00` / `/이슈요약 시간대 UTC` / `/이슈요약 해지` / `/이슈요약 지금`',
+    'digest.overview': '☀️ *{channel} 데일리 요약*: {settings}\n\n{usage}',
+    'digest.unsubscribed': '✅ {user}님이 이 채널의 데일리 요약 구독을 해지했습니다.',
+    'digest.subscribeFirst': '❌ 먼저 `/이슈요약 구독`으로 구독해주세요.',
+    'digest.unknown': '❌ 알 수 없는 명령입니다. {usage}',
+    'digest.changed': '✅ {user}님이 데일리 요약을 설정했습니다: {settings}',
+
+    // /빌드현황
+    'build.issueUnit': '개',
+    'build.target': '목표 {ideal}',
+    'build.scope': '범위: *{count}개*{points}',
+    'build.progress': '완료: *{completed}개*{completedPoints} · 남음: *{remaining}개*{remainingPoints} · 진행률 {percent}%',
+    'build.canceled': '취소: {count}개 (범위에서 제외)',
+    'build.assigneeLine': '• {name}: {done}/{total}개 완료{points}',
+    'build.addedOn': '{date} 추가',
+    'build.header': '🏗️ *{team} 빌드 {version} 현황*',
+    'build.title': '🏗️ {team} 빌드 {version} 현황',
+    'build.daysLeft': '종료까지 {days}일',
+    'build.ended': '종료됨',
+    'build.burndownPoints': '*📉 번다운 (남은 포인트)*',
+    'build.burndownIssues': '*📉 번다운 (남은 이슈)*',
+    'build.noHistory': '아직 기록이 없습니다.',
+    'build.byAssignee': '*👥 담당자별*',
+    'build.added': '*➕ 시작 후 추가된 이슈 ({count})*',
+    'build.carryOver': '*📦 이월 후보 ({count})*',
+    'build.notFound': '❌ {team} 팀에서 빌드({cycle})를 찾을 수 없습니다.',
+    'build.noActive': '❌ {team} 팀에 진행 중인 빌드(사이클)가 없습니다.',
+    'build.notScheduled': '예약 없음',
+    'build.lastDay': '마지막 날',
+    'build.daysBeforeEnd': '종료 {days}일 전',
+    'build.schedule': '빌드 {when} *{time}* ({timeZone})에 게시',
+    'build.unscheduled': '✅ {user}님이 빌드 현황 예약을 해지했습니다.',
+    'build.scheduled': '✅ {user}님이 빌드 현황을 예약했습니다: {settings}',
+    'build.footer': '채널에 게시: `/빌드현황 {cycle}게시` · 자동 게시: {settings} (`/빌드현황 예약 [일] [HH:MM]`)',
+    'build.truncated': '✂️ 보고서가 길어 일부만 표시했습니다. 전체 보기: `/빌드현황 {cycle}게시`',
+
+    // Undo
+    'undo.button': '↩️ 되돌리기',
+    'undo.changedSince': '⚠️ *{identifier}* 이슈가 그 사이 다시 변경되어 되돌리지 않았습니다.',
+    'undo.stateReverted': '↩️ *{identifier}* 이슈의 상태를 되돌렸습니다.',
+    'undo.assigneeReverted': '↩️ *{identifier}* 이슈의 담당자를 되돌렸습니다.',
+    'undo.failed': '❌ 되돌리기에 실패했습니다: {error}',
+    'undo.assignedToMe': '✅ 이 이슈를 나에게 할당했습니다.',
+    'undo.assigneeChanged': '✅ 담당자를 *{assignee}*(으)로 변경했습니다.',
+    'undo.stateChanged': '✅ 상태를 *{state}*(으)로 변경했습니다.',
+    'undo.reopenedNotice': '🔄 {user}님이 이 이슈를 다시 열었습니다. (*{state}*)',
+    'undo.reopened': '✅ 이슈를 *{state}* 상태로 다시 열었습니다.',
+
+    // Reminders, 완료 처리
+    'reminder.overdue': '📅 기한이 {days}일 지났습니다 ({date})',
+    'reminder.dueToday': '📅 오늘이 기한입니다 ({date})',
+    'reminder.dueSoon': '📅 기한이 {days}일 남았습니다 ({date})',
+    'reminder.stale': '⌛ {days}일째 상태 변화가 없습니다 ({state})',
+    'reminder.snoozeDay': '💤 내일 다시',
+    'reminder.snoozeWeek': '💤 1주 뒤에',
+    'reminder.noAssignee': '(담당자 미지정)',
+    'reminder.header': '⏰ {who} *{issue}* 확인이 필요해요',
+    'reminder.snoozedDay': '💤 {user}님이 알림을 내일로 미뤘습니다.',
+    'reminder.snoozedDays': '💤 {user}님이 알림을 {days}일 뒤로 미뤘습니다.',
+    'reminder.doneBy': '✅ {user}님이 완료 처리했습니다.',
+    'undo.done': '✅ 완료 처리했습니다.',
+    'undo.doneNotice': '✅ {user}님이 이 이슈를 완료 처리했습니다.',
+
+    // App Home
+    'home.title': '📋 내 Linear 이슈',
+    'home.byState': '상태별',
+    'home.byTag': '태그별',
+    'home.refresh': '🔄 새로고침',
+    'home.recent': '🆕 최근에 내가 만든 이슈',
+    'home.noIssues': '✅ 나에게 할당된 진행 중 이슈가 없습니다.',
+    'home.more': '…외 {count}개 이슈는 `/이슈목록`으로 확인해주세요.',
+    'home.noRecent': '아직 `/이슈!`로 만든 이슈가 없습니다.',
+    'home.openThread': '💬 스레드로 이동',
+    'home.thread': '💬 스레드',
+    'home.stateFailed': '❌ 상태 변경에 실패했습니다: {error}',
+    'home.assigneeChanged': '✅ 담당자를 {user}님으로 변경했습니다.',
+    'home.assigneeFailed': '❌ 담당자 변경에 실패했습니다: {error}',
+
+    // /언어
+    'lang.current': '🌐 내 언어: {locale}\n변경: `/언어 <ko|en>` / Slack 언어 따르기: `/언어 자동`',
+    'lang.auto': '자동 (Slack 언어 설정: {locale})',
+    'lang.usage': '❌ 사용법: `/언어 <ko|en>` / `/언어 자동`',
+    'lang.changed': '✅ 언어를 변경했습니다: {locale}'
+};
+
+export type MessageKey = keyof typeof ko;
+
+const en: Record<MessageKey, string> = {
+    // Common
+    'common.error': '❌ Something went wrong: {error}',
+    'common.botNotInChannel': 'The bot is not in this channel. Type `/invite @bot-name` in the channel to invite it!',
+    'common.none': 'None',
+    'common.unassigned': 'Unassigned',
+    'common.unknown': 'Unknown',
+    'common.select': 'Select...',
+    'common.cancel': 'Cancel',
+    'common.create': 'Create',
+    'common.link': 'Link',
+    'common.title': 'Title',
+    'common.description': 'Description',
+    'common.titleRequired': 'Please enter a title.',
+    'common.adminOnly': '❌ Only workspace admins can change channel settings.',
+    'common.badTime': '❌ Enter the time as `HH:MM` (24-hour). e.g. `{example}`',
+    'common.badTimeZone': '❌ Unknown time zone: `{timeZone}` (e.g. Asia/Seoul, UTC, America/Los_Angeles)',
+    'common.teamNotFound': '❌ Linear team ({team}) not found. Please check the identifier.',
+    'common.noChannelTeam': '❌ No Linear team is linked to this channel. Set one with `/issue-settings team <team key>` or set LINEAR_TEAM_ID on the server.',
+    'common.teamScope': 'team {team}',
+    'common.allTeams': 'all teams',
+
+    // Issue fields (card fields, change kinds, modal labels)
+    'field.state': 'State',
+    'field.assignee': 'Assignee',
+    'field.priority': 'Priority',
+    'field.dueDate': 'Due',
+    'field.labels': 'Labels',
+    'field.cycle': 'Build',
+    'field.title': 'Title',
+    'field.project': 'Project',
+    'field.estimate': 'Estimate',
+    'field.archive': 'Archive',
+    'field.comment': 'Comments',
+
+    'priority.0': 'None',
+    'priority.1': '🔴 Urgent',
+    'priority.2': '🟠 High',
+    'priority.3': '🟡 Medium',
+    'priority.4': '🔵 Low',
+
+    // Files
+    'file.tooLarge': '📎 {name} (too large to sync)',
+    'file.uploadFailed': '📎 {name} (upload failed)',
+
+    // Linear -> Slack relay
+    'relay.comment': '💬 *New comment ({user})*:\n{text}',
+    'relay.edited': '_(edited)_',
+    'relay.title': '✏️ *Title changed*: ~{from}~ → {to}',
+    'relay.state': '🛠️ *State changed*: {change}',
+    'relay.assignee': '👤 *Assignee changed*: {change}',
+    'relay.priority': '🚩 *Priority changed*: {change}',
+    'relay.dueDate': '📅 *Due date changed*: {change}',
+    'relay.labels': '🏷️ *Labels changed*: {change}',
+    'relay.cycle': '🏗️ *Build changed*: {change}',
+    'relay.project': '📁 *Project changed*: {change}',
+    'relay.estimate': '📏 *Estimate changed*: {change}',
+    'relay.archived': '🗄️ *Issue archived*',
+    'relay.unarchived': '📤 *Issue unarchived*',
+    'relay.trashed': '🗑️ *Issue deleted* (trash)',
+    'relay.restored': '♻️ *Issue restored from the trash*',
+    'relay.deleted': '🗑️ *Issue permanently deleted*',
+    'relay.summary': '🔔 *{identifier} changes*{by}\n{changes}',
+    'relay.by': ' (by {actor})',
+
+    // Slack <-> Linear user matching
+    'match.linkMissing': '❌ The linked Linear account could not be found. Link it again with `/linear-link <Linear email>`.',
+    'match.noEmail': '❌ No email found in your Slack profile. Link your account with `/linear-link <Linear email>`.',
+    'match.noLinearUser': '❌ No Linear user matches the email {email}. If your Linear email is different, link your account with `/linear-link <Linear email>`.',
+
+    // Issue card
+    'card.parent': '⬆️ Parent issue {link}',
+    'card.children': '🧩 Sub-issues {completed}/{total} done',
+    'card.moreDetails': 'More details 👉',
+    'card.openInLinear': 'Open in Linear 🚀',
+    'card.whoResolves': 'Who will take this issue?',
+    'card.assignToMe': 'Assign to me',
+    'card.pickAssignee': 'Pick a teammate...',
+    'card.pickState': 'Change state...',
+    'card.changeState': 'Change state',
+    'card.changeAssignee': 'Change assignee',
+    'card.reopen': 'Reopen',
+    'card.markDone': 'Mark done',
+    'card.reopenPrompt': 'Reopen this issue?',
+    'card.donePrompt': 'Is this issue done?',
+    'card.closedState': '✅ This issue is *{state}*.',
+
+    // Issue creation
+    'create.modalTitle': 'Create Linear issue',
+    'create.loading': '⏳ Loading team data from Linear...',
+    'create.cycleLabel': 'Build (cycle)',
+    'create.toolsTitle': 'Tools',
+    'create.toolsMoved': '*The tools have moved here.*',
+    'sub.notInThread': '❌ Sub-issues can only be created from a reply in an issue thread.',
+    'sub.noText': `❌ A reply without text can't become a sub-issue.`,
+    'sub.created': '🧩 {user} created sub-issue *{issue}* {title}.',
+
+    // /이슈목록, /태그목록
+    'list.tag': 'Tag',
+    'list.unassigned': 'unassigned',
+    'list.overdue': 'overdue',
+    'list.dueBefore': 'due by {date}',
+    'list.teamFilter': 'Team: {team}',
+    'list.missingValue': 'Enter a value after `{key}:`.',
+    'list.badPriority': 'Unknown priority: {value} (urgent, high, medium, low, none)',
+    'list.badDue': 'Use `due:YYYY-MM-DD` or `due:overdue` for the due date.',
+    'list.badSort': 'Sort must be one of priority, due, updated.',
+    'list.badGroup': 'Group must be one of state, tag, priority, project.',
+    'list.unknownFilter': 'Unknown filter: `{key}:`',
+    'list.noPriority': 'No priority',
+    'list.noProject': 'No project',
+    'list.header': '*Requested by {requester}: active issues for {who} by {mode}*',
+    'list.filters': '(filters: {filters})',
+    'list.title': 'Issues by {mode}',
+    'list.threadTitle': 'Issue list by {mode}',
+    'list.total': 'Found {total} issue(s) in {groups} group(s). See the thread for details! 👇',
+    'list.assigneesNotFound': `❌ Couldn't find the user(s) {users} in Slack.\nPick the mention from Slack's autocomplete so it is sent as <@U...>. e.g. /issues <@U12345>\n(@handle matching also fails if the bot lacks the users:read scope.)`,
+    'list.someAssigneesFailed': `⚠️ Some users couldn't be matched: {users}\nPick them from Slack's mention autocomplete (<@U...>) and try again.`,
+    'list.emptyFiltered': '✅ {who}: no issues match ({filters}).',
+    'list.empty': '✅ {who} has no active issues.',
+    'list.emptyTag': '✅ No active issues tagged "{tag}".',
+    'list.botNotInChannel': 'The bot is not in this channel. Invite it with `/invite @bot-name` (Lenaer) and try again.',
+
+    // /이슈설정
+    'settings.off': 'off',
+    'settings.overview': '⚙️ *{channel} channel settings*\n• Team: {team}\n• Notifications: {relay}\n• Reminders: {reminder}\n• Reactions: {reaction}\n• Language: {locale}\n\nChange: `/issue-settings team <team key>` / `/issue-settings team clear`\nNotifications: `/issue-settings notify off <kinds...>` / `/issue-settings notify on <kinds...>` / `/issue-settings notify all`\nKinds: {kinds}\nReminders: `/issue-settings reminder due <days>` / `/issue-settings reminder stale <days>` / `/issue-settings reminder off|on`\nReactions: `/issue-settings reaction <:emoji:> <{workflows}|clear>`\nLanguage: `/issue-settings language <ko|en|clear>`',
+    'settings.teamDefault': 'default (LINEAR_TEAM_ID{team})',
+    'settings.unknown': '❌ Unknown setting. e.g. `/issue-settings team APP`, `/issue-settings notify off labels`',
+    'settings.teamMissing': '❌ Enter a team key. e.g. `/issue-settings team APP`',
+    'settings.teamCleared': `✅ {user} cleared this channel's team. (using the default team)`,
+    'settings.teamChanged': '✅ {user} changed the settings: issues from this channel now go to *{name}* (`{key}`).',
+    'settings.relayAll': 'all changes relayed',
+    'settings.relayMuted': 'muted - {kinds}',
+    'settings.relayAllOn': '✅ {user} turned on all change notifications for this channel.',
+    'settings.relayUsage': '❌ Usage: `/issue-settings notify off <kinds...>` / `/issue-settings notify on <kinds...>` / `/issue-settings notify all`',
+    'settings.relayBadKinds': '❌ Check the notification kinds{unknown}. Available: {kinds}',
+    'settings.relayChanged': '✅ {user} changed the notification settings: {settings}',
+    'settings.reminderDueSoon': 'from {days} day(s) before due',
+    'settings.reminderOverdue': 'once overdue',
+    'settings.reminderStale': 'no state change for {days}+ day(s)',
+    'settings.reminderStaleOff': 'stale reminders off',
+    'settings.reminderUsage': '❌ Usage: `/issue-settings reminder due <days>` (0 = only once overdue) / `/issue-settings reminder stale <days>` (0 = off) / `/issue-settings reminder off|on`',
+    'settings.reminderChanged': '✅ {user} changed the reminder settings: {settings}',
+    'settings.localeDefault': 'default ({locale})',
+    'settings.localeUsage': '❌ Usage: `/issue-settings language <ko|en>` / `/issue-settings language clear`',
+    'settings.localeChanged': `✅ {user} changed this channel's language: {locale}`,
+    'reaction.done': 'done',
+    'reaction.assign': 'assign',
+    'reaction.create': 'create',
+    'reaction.none': 'not used',
+    'reaction.usage': '❌ Usage: `/issue-settings reaction <:emoji:> <{workflows}|clear>`',
+    'reaction.changed': '✅ {user} changed the reaction settings: {settings}',
+    'reaction.noText': `❌ A message without text can't become an issue. Use 'Create Linear issue' from the message menu.`,
+    'reaction.created': `🎫 Created *{identifier}* from {user}'s reaction.`,
+    'reaction.assigned': '👀 {user} took this issue with a reaction.',
+    'reaction.doneUndo': '✅ Marked done with a reaction.',
+    'reaction.assignUndo': '👀 Assigned this issue to you with a reaction.',
+    'reaction.error': '❌ Something went wrong handling the reaction: {error}',
+
+    // /리니어연결, thread links
+    'link.none': 'no linked Linear account',
+    'link.noEmailMatch': '(no Linear user matches the Slack email {email})',
+    'link.explicit': 'linked manually',
+    'link.byEmail': 'matched by email',
+    'link.usage': 'Link: `/linear-link <Linear email|name>` / unlink: `/linear-link clear`\nAdmins: `/linear-link <@user> <Linear email|name|clear>`',
+    'link.slackUserNotFound': `❌ Couldn't find the Slack user {user}. Pick them from the mention autocomplete.`,
+    'link.adminOnly': `❌ Only workspace admins can change another user's link.`,
+    'link.unlinked': '✅ Unlinked. {link}',
+    'link.linearUserNotFound': '❌ Linear user {user} not found. Check the Linear email or display name.',
+    'link.ownedByOther': '❌ The *{name}* account belongs to {owner}. Ask an admin.',
+    'link.linked': '✅ Linked. {link}',
+    'link.threadAlreadyLinked': '❌ This thread is already linked to *{identifier}*.',
+    'link.threadAlreadyLinkedInfo': 'ℹ️ This thread is already linked to *{identifier}*.',
+    'link.issueLinkedElsewhere': '❌ *{identifier}* is already linked to another thread{where}',
+    'link.threadTaken': '⚠️ This thread is already linked to *{identifier}*, so no other issue can be linked.',
+    'link.modalTitle': 'Link issue',
+    'link.issueLabel': 'Issue',
+    'link.issueHint': 'Issue ID (APP-123) or Linear issue URL',
+    'link.issueRequired': 'Enter an issue ID (APP-123) or a Linear issue URL.',
+    'link.issueNotFound': '❌ Linear issue {identifier} not found.',
+
+    // /이슈검색
+    'search.usage': '❌ Enter a search term. e.g. `/issue-search login bug` / `/issue-search team:APP login` / `/issue-search team:all login`',
+    'search.header': '🔎 *Results for "{term}"* ({count}, {scope})',
+    'search.title': '{count} result(s) for "{term}"',
+    'search.empty': '🔎 No issues match "{term}". ({scope})',
+    'search.open': '🔗 Open',
+    'search.postCard': '📌 Post card to channel',
+    'search.linkThread': '🧵 Link to thread',
+    'search.threadExists': 'ℹ️ *{identifier}* already has a thread{where}',
+    'search.goToThread': 'go to thread',
+    'search.linkThreadTitle': 'Link to thread',
+    'search.threadLinkLabel': 'Thread link',
+    'search.threadLinkHint': `Paste the address from the thread message's ⋮ menu → "Copy link".`,
+    'search.badThreadLink': 'Please check the Slack message link.',
+
+    // /이슈요약
+    'digest.header': '☀️ *{team} daily digest* ({date})',
+    'digest.title': '☀️ {team} daily digest ({date})',
+    'digest.completedYesterday': '*✅ Completed yesterday ({count})*',
+    'digest.completedSinceFriday': '*✅ Completed Friday through Sunday ({count})*',
+    'digest.inProgress': '*🚧 In progress ({count})*',
+    'digest.newUnassigned': '*🆕 New unassigned issues ({count})*',
+    'digest.schedule': 'posted on weekdays at *{time}* ({timeZone})',
+    'digest.notSubscribed': 'not subscribed',
+    'digest.usage': 'Usage: `/issue-digest subscribe [09:30] [Asia/Seoul]` / `/issue-digest time 10:00` / `/issue-digest timezone UTC` / `/issue-digest unsubscribe` / `/issue-digest now`',
+    'digest.overview': '☀️ *{channel} daily digest*: {settings}\n\n{usage}',
+    'digest.unsubscribed': '✅ {user} unsubscribed this channel from the daily digest.',
+    'digest.subscribeFirst': '❌ Subscribe first with `/issue-digest subscribe`.',
+    'digest.unknown': '❌ Unknown command. {usage}',
+    'digest.changed': '✅ {user} set up the daily digest: {settings}',
+
+    // /빌드현황
+    'build.issueUnit': ' issues',
+    'build.target': 'target {ideal}',
+    'build.scope': 'Scope: *{count} issues*{points}',
+    'build.progress': 'Done: *{completed}*{completedPoints} · Remaining: *{remaining}*{remainingPoints} · {percent}% complete',
+    'build.canceled': 'Canceled: {count} (excluded from scope)',
+    'build.assigneeLine': '• {name}: {done}/{total} done{points}',
+    'build.addedOn': 'added {date}',
+    'build.header': '🏗️ *{team} build {version} status*',
+    'build.title': '🏗️ {team} build {version} status',
+    'build.daysLeft': '{days} day(s) left',
+    'build.ended': 'ended',
+    'build.burndownPoints': '*📉 Burndown (remaining points)*',
+    'build.burndownIssues': '*📉 Burndown (remaining issues)*',
+    'build.noHistory': 'No history yet.',
+    'build.byAssignee': '*👥 By assignee*',
+    'build.added': '*➕ Added after start ({count})*',
+    'build.carryOver': '*📦 Carry-over candidates ({count})*',
+    'build.notFound': '❌ Build {cycle} not found in team {team}.',
+    'build.noActive': '❌ Team {team} has no active build (cycle).',
+    'build.notScheduled': 'not scheduled',
+    'build.lastDay': 'on the last day',
+    'build.daysBeforeEnd': '{days} day(s) before the end',
+    'build.schedule': 'posted {when} of each build at *{time}* ({timeZone})',
+    'build.unscheduled': '✅ {user} canceled the scheduled build report.',
+    'build.scheduled': '✅ {user} scheduled the build report: {settings}',
+    'build.footer': 'Post to channel: `/build-status {cycle}post` · Auto-post: {settings} (`/build-status schedule [days] [HH:MM]`)',
+    'build.truncated': '✂️ The report is too long to show here in full. Full report: `/build-status {cycle}post`',
+
+    // Undo
+    'undo.button': '↩️ Undo',
+    'undo.changedSince': `⚠️ *{identifier}* has changed again since, so it wasn't reverted.`,
+    'undo.stateReverted': '↩️ Reverted the state of *{identifier}*.',
+    'undo.assigneeReverted': '↩️ Reverted the assignee of *{identifier}*.',
+    'undo.failed': '❌ Undo failed: {error}',
+    'undo.assignedToMe': '✅ Assigned this issue to you.',
+    'undo.assigneeChanged': '✅ Changed the assignee to *{assignee}*.',
+    'undo.stateChanged': '✅ Changed the state to *{state}*.',
+    'undo.reopenedNotice': '🔄 {user} reopened this issue. (*{state}*)',
+    'undo.reopened': '✅ Reopened the issue as *{state}*.',
+
+    // Reminders, 완료 처리
+    'reminder.overdue': '📅 {days} day(s) overdue ({date})',
+    'reminder.dueToday': '📅 Due today ({date})',
+    'reminder.dueSoon': '📅 Due in {days} day(s) ({date})',
+    'reminder.stale': '⌛ No state change for {days} day(s) ({state})',
+    'reminder.snoozeDay': '💤 Tomorrow',
+    'reminder.snoozeWeek': '💤 In a week',
+    'reminder.noAssignee': '(unassigned)',
+    'reminder.header': '⏰ {who} *{issue}* needs attention',
+    'reminder.snoozedDay': '💤 {user} snoozed this until tomorrow.',
+    'reminder.snoozedDays': '💤 {user} snoozed this for {days} days.',
+    'reminder.doneBy': '✅ {user} marked this done.',
+    'undo.done': '✅ Marked as done.',
+    'undo.doneNotice': '✅ {user} marked this issue as done.',
+
+    // App Home
+    'home.title': '📋 My Linear issues',
+    'home.byState': 'By state',
+    'home.byTag': 'By tag',
+    'home.refresh': '🔄 Refresh',
+    'home.recent': '🆕 Issues I created recently',
+    'home.noIssues': '✅ No open issues assigned to you.',
+    'home.more': '…and {count} more. See them with `/issues`.',
+    'home.noRecent': 'You haven\'t created any issues with `/issue` yet.',
+    'home.openThread': '💬 Go to thread',
+    'home.thread': '💬 Thread',
+    'home.stateFailed': `❌ Couldn't change the state: {error}`,
+    'home.assigneeChanged': '✅ Changed the assignee to {user}.',
+    'home.assigneeFailed': `❌ Couldn't change the assignee: {error}`,
+
+    // /언어
+    'lang.current': '🌐 Your language: {locale}\nChange: `/language <ko|en>` / follow Slack: `/language auto`',
+    'lang.auto': 'auto (Slack language: {locale})',
+    'lang.usage': '❌ Usage: `/language <ko|en>` / `/language auto`',
+    'lang.changed': '✅ Language changed: {locale}'
+};
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { ko, en };
+
+export function t(locale: Locale, key: MessageKey, params: Record<string, string | number> = {}): string {
+    return CATALOGS[locale][key].replace(/\{(\w+)\}/g, (m, name: string) => name in params ? String(params[name]) : m);
+}
+
+// 'ko', 'ko-KR', 'en-US' (Slack user locale) or 'en'; anything else is unsupported
+export function parseLocale(value: string | null | undefined): Locale | undefined {
+    const lang = (value || '').trim().toLowerCase().split(/[-_]/)[0];
+    return LOCALES.find(l => l === lang);
+}
+
+// -------------------------------------------------------------
+// English keywords for the Korean command parsers
+// Handlers compare against the Korean keyword, so English input is mapped onto it
+// before parsing. Only applied at keyword positions, never to titles or search terms.
+// -------------------------------------------------------------
+const KEYWORD_ALIASES: Record<string, string> = {
+    // /이슈설정
+    team: '팀',
+    notify: '알림',
+    notifications: '알림',
+    reminder: '리마인더',
+    reaction: '리액션',
+    language: '언어',
+    on: '켜기',
+    off: '끄기',
+    all: '전체',
+    due: '기한',
+    stale: '방치',
+    clear: '해제',
+    unlink: '해제',
+    // /이슈요약, /빌드현황
+    subscribe: '구독',
+    unsubscribe: '해지',
+    cancel: '해지',
+    time: '시간',
+    timezone: '시간대',
+    now: '지금',
+    post: '게시',
+    schedule: '예약',
+    // /이슈목록
+    tag: '태그',
+    unassigned: '미지정',
+    overdue: '기한초과',
+    priority: '우선순위',
+    state: '상태',
+    status: '상태',
+    build: '빌드',
+    cycle: '빌드',
+    current: '현재',
+    project: '프로젝트',
+    sort: '정렬',
+    group: '그룹',
+    updated: '업데이트',
+    // /언어
+    auto: '자동'
+};
+
+export const normalizeKeyword = (word: string) => KEYWORD_ALIASES[word.toLowerCase()] ?? word;
@@ -1,16 +1,27 @@
-import { App, LogLevel, ExpressReceiver } from '@slack/bolt';
-import { LinearClient, PaginationOrderBy } from '@linear/sdk';
+import { App, LogLevel, ExpressReceiver, subtype } from '@slack/bolt';
+import { Issue, LinearClient, PaginationOrderBy, User } from '@linear/sdk';
 import * as dotenv from 'dotenv';
 import * as bodyParser from 'body-parser';
-import * as fs from 'fs';
+import * as crypto from 'crypto';
 import * as path from 'path';
+import { ReminderSettings, ThreadMapping, openMappingStore } from './store';
+import { MentionResolver, linearToSlackMrkdwn, slackToLinearMarkdown } from './markdown';
+import { LOCALES, LOCALE_NAMES, Locale, MessageKey, normalizeKeyword, parseLocale, t } from './i18n';
 
 dotenv.config();
 
 // Initialize Linear Client
-const linearClient = new LinearClient({
-    apiKey: process.env.LINEAR_API_KEY,
-});
+// LINEAR_ACCESS_TOKEN (OAuth app, actor=application) takes precedence over a personal LINEAR_API_KEY.
+// Only an app token can post comments under the Slack author's name/avatar (createAsUser / displayIconUrl).
+const LINEAR_ACTS_AS_APP = !!process.env.LINEAR_ACCESS_TOKEN;
+const linearClient = new LinearClient(LINEAR_ACTS_AS_APP
+    ? { accessToken: process.env.LINEAR_ACCESS_TOKEN }
+    : { apiKey: process.env.LINEAR_API_KEY });
+
+// Authorization header for raw requests (e.g. uploads.linear.app downloads)
+const linearAuthHeader = () => LINEAR_ACTS_AS_APP
+    ? `Bearer ${process.env.LINEAR_ACCESS_TOKEN}`
+    : process.env.LINEAR_API_KEY || '';
 
 // Initialize Express Receiver for Webhooks
 const receiver = new ExpressReceiver({
@@ -19,7 +30,12 @@ const receiver = new ExpressReceiver({
 });
 
 // Use custom body parser for webhook handling
-receiver.router.use(bodyParser.json());
+// Keep the raw body around: Linear signs the exact bytes it sent, not the re-serialized JSON.
+receiver.router.use(bodyParser.json({
+    verify: (req, _res, buf) => {
+        (req as any).rawBody = buf;
+    }
+}));
 
 // Initialize Slack Bolt App with Socket Mode AND Receiver
 const app = new App({
@@ -29,21 +45,131 @@ const app = new App({
     logLevel: (process.env.LOG_LEVEL as LogLevel) || LogLevel.INFO,
 });
 
-// Helper: Get Linear User by Email
-async function getLinearUserByEmail(email: string) {
-    const me = await linearClient.viewer; // Check connectivity
-    const users = await linearClient.users({
-        filter: {
-            email: {
-                eq: email
-            }
+// -------------------------------------------------------------
+// HELPER: Slack <-> Linear identity map
+// - Explicit links (/리니어연결, stored in ThreadMappingStore) win; everyone else is matched by email.
+// - Slack profiles, Linear users and the Slack member directory are cached for IDENTITY_CACHE_TTL_MS,
+//   so commands and mention translation don't hit both APIs on every call.
+// -------------------------------------------------------------
+const IDENTITY_CACHE_TTL_MS = 10 * 60 * 1000;
+// "Not found" (null) results expire sooner, so a newly added user is picked up quickly
+const IDENTITY_MISS_TTL_MS = 60 * 1000;
+
+function createTtlCache<V>(ttlMs: number, missTtlMs = IDENTITY_MISS_TTL_MS) {
+    const entries = new Map<string, { value: V; expiresAt: number }>();
+    let lastSweepAt = Date.now();
+
+    // Expired entries are dropped at most once per TTL, so keys that are never read again don't pile up
+    const sweep = (now: number) => {
+        if (now - lastSweepAt < ttlMs) return;
+        lastSweepAt = now;
+        for (const [key, entry] of entries) {
+            if (entry.expiresAt <= now) entries.delete(key);
+        }
+    };
+
+    return {
+        // Failed loads (thrown errors) are not cached
+        async get(key: string, load: () => Promise<V>): Promise<V> {
+            const now = Date.now();
+            sweep(now);
+            const hit = entries.get(key);
+            if (hit && hit.expiresAt > now) return hit.value;
+            if (hit) entries.delete(key);
+
+            const value = await load();
+            entries.set(key, { value, expiresAt: Date.now() + (value === null || value === undefined ? missTtlMs : ttlMs) });
+            return value;
+        }
+    };
+}
+
+const slackUserCache = createTtlCache<any>(IDENTITY_CACHE_TTL_MS);
+const slackIdByEmailCache = createTtlCache<string | null>(IDENTITY_CACHE_TTL_MS);
+const slackDirectoryCache = createTtlCache<any[]>(IDENTITY_CACHE_TTL_MS);
+// Keys: 'id:<id>', 'email:<email>', 'name:<displayName>'
+const linearUserCache = createTtlCache<User | null>(IDENTITY_CACHE_TTL_MS);
+
+// users.info (with the user's Slack locale), cached
+async function getSlackUser(client: any, userId: string): Promise<any> {
+    return slackUserCache.get(userId, async () => (await client.users.info({ user: userId, include_locale: true })).user);
+}
+
+async function getSlackEmailByUserId(client: any, userId: string): Promise<string | null> {
+    const slackUser = await getSlackUser(client, userId);
+    return slackUser?.profile?.email || null;
+}
+
+async function slackUserIdByEmail(email: string): Promise<string | null> {
+    return slackIdByEmailCache.get(email.toLowerCase(), async () => {
+        try {
+            const res = await app.client.users.lookupByEmail({ email });
+            return res.user?.id || null;
+        } catch (e) {
+            // users_not_found is expected for Linear-only users
+            return null;
         }
     });
+}
 
-    if (users.nodes.length === 0) {
-        return null;
+// Active human members (users:read); one users.list walk per TTL instead of one per @handle
+async function listSlackMembers(client: any): Promise<any[]> {
+    return slackDirectoryCache.get('all', async () => {
+        const members: any[] = [];
+        let cursor: string | undefined = undefined;
+        for (let i = 0; i < 5; i++) { // safety cap
+            const res: any = await client.users.list({ limit: 200, cursor });
+            members.push(...(res.members || []).filter((m: any) => !m.deleted && !m.is_bot));
+            cursor = res.response_metadata?.next_cursor;
+            if (!cursor) break;
+        }
+        return members;
+    });
+}
+
+const getLinearUserById = (linearUserId: string) =>
+    linearUserCache.get(`id:${linearUserId}`, async () => {
+        try {
+            return await linearClient.user(linearUserId);
+        } catch (e) {
+            // deactivated/removed users
+            return null;
+        }
+    });
+
+const getLinearUserByEmail = (email: string) =>
+    linearUserCache.get(`email:${email.toLowerCase()}`, async () => {
+        const users = await linearClient.users({ filter: { email: { eqIgnoreCase: email } } });
+        return users.nodes[0] || null;
+    });
+
+const getLinearUserByDisplayName = (displayName: string) =>
+    linearUserCache.get(`name:${displayName.toLowerCase()}`, async () => {
+        const users = await linearClient.users({ filter: { displayName: { eqIgnoreCase: displayName } } });
+        return users.nodes[0] || null;
+    });
+
+// Explicit link first, then the Slack profile email
+async function linearUserForSlackUser(client: any, slackUserId: string): Promise<{ linearUser: User | null; email: string | null; linked: boolean }> {
+    const link = ThreadMappingStore.getUserLink(slackUserId);
+    if (link) {
+        return { linearUser: await getLinearUserById(link.linearUserId), email: null, linked: true };
     }
-    return users.nodes[0];
+
+    const email = await getSlackEmailByUserId(client, slackUserId);
+    return { linearUser: email ? await getLinearUserByEmail(email) : null, email, linked: false };
+}
+
+// Reverse direction: explicit link first, then the Linear email. A Slack user linked to another
+// Linear account is not matched by email.
+async function slackUserForLinearUser(linearUser: { id: string; email?: string | null }): Promise<string | null> {
+    const link = ThreadMappingStore.getUserLinkByLinearUser(linearUser.id);
+    if (link) return link.slackUserId;
+    if (!linearUser.email) return null;
+
+    const slackUserId = await slackUserIdByEmail(linearUser.email);
+    const other = slackUserId ? ThreadMappingStore.getUserLink(slackUserId) : undefined;
+    return other && other.linearUserId !== linearUser.id ? null : slackUserId;
 }
 
 // Helper: Get Current Active Cycle
@@ -88,52 +214,329 @@ async function getCurrentCycle(teamId: string) {
 }
 
 // -------------------------------------------------------------
-// HELPER: Thread Mapping Store (Local JSON)
+// HELPER: Thread Mapping Store (SQLite, JSON fallback - see store.ts)
+// -------------------------------------------------------------
+const ThreadMappingStore = openMappingStore({
+    dataDir: process.env.DATA_DIR || path.join(__dirname, '..'),
+    backend: process.env.STORE_BACKEND,
+    // Pre-store deployments kept mappings in thread_map.json next to dist/
+    legacyFile: path.join(__dirname, '../thread_map.json')
+});
+
+// -------------------------------------------------------------
+// HELPER: Locale (ko / en, catalogs in i18n.ts)
+// - Replies to a command or button (ephemeral or not, modals, App Home) follow the user:
+//   /언어 setting > Slack locale > DEFAULT_LOCALE.
+// - Messages that live in the channel (cards, unfurls, thread notices, relayed changes,
+//   digests, reminders, posted build reports) follow the channel: /이슈설정 언어 > DEFAULT_LOCALE.
+// -------------------------------------------------------------
+const DEFAULT_LOCALE: Locale = parseLocale(process.env.DEFAULT_LOCALE) || 'ko';
+
+async function userLocale(client: any, userId: string): Promise<Locale> {
+    const explicit = parseLocale(ThreadMappingStore.getUserSettings(userId).locale);
+    if (explicit) return explicit;
+    try {
+        // Slack locales other than Korean fall back to English rather than DEFAULT_LOCALE
+        const slackLocale = (await getSlackUser(client, userId))?.locale;
+        return slackLocale ? parseLocale(slackLocale) || 'en' : DEFAULT_LOCALE;
+    } catch {
+        return DEFAULT_LOCALE;
+    }
+}
+
+// Modals carry the opener's locale in private_metadata: view submissions must ack() within 3 seconds
+const modalLocale = (metadata: { locale?: string }): Locale => parseLocale(metadata.locale) || DEFAULT_LOCALE;
+
+const channelLocale = (channelId?: string): Locale =>
+    (channelId && parseLocale(ThreadMappingStore.getChannelSettings(channelId).locale)) || DEFAULT_LOCALE;
+
+// English aliases for the slash commands; each alias must also be registered in the Slack app
+const COMMAND_ALIASES: Record<string, string> = {
+    '/이슈!': '/issue',
+    '/이슈목록': '/issues',
+    '/태그목록': '/tags',
+    '/이슈설정': '/issue-settings',
+    '/리니어연결': '/linear-link',
+    '/이슈검색': '/issue-search',
+    '/이슈요약': '/issue-digest',
+    '/빌드현황': '/build-status',
+    '/언어': '/language'
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// app.command() matcher for a command and its alias, so both share one handler
+const slashCommand = (name: string) =>
+    new RegExp(`^(?:${[name, COMMAND_ALIASES[name]].filter(Boolean).map(escapeRegExp).join('|')})$`);
+
+// -------------------------------------------------------------
+// HELPER: Team Routing (channel -> Linear team)
+// Priority: explicit override (/이슈! APP: ...) > channel setting (/이슈설정 팀 APP) > LINEAR_TEAM_ID
+// -------------------------------------------------------------
+type TeamRef = { id: string; key: string; name: string };
+
+const TEAM_CACHE_REFRESH_MS = 5 * 60 * 1000;
+let teamCache: { teams: TeamRef[]; loadedAt: number } | null = null;
+
+async function loadTeams(): Promise<TeamRef[]> {
+    const teams = await linearClient.teams({ first: 250 });
+    teamCache = {
+        teams: teams.nodes.map(t => ({ id: t.id, key: t.key, name: t.name })),
+        loadedAt: Date.now()
+    };
+    console.log(`[Debug] Loaded ${teamCache.teams.length} Linear team(s)`);
+    return teamCache.teams;
+}
+
+// Accepts a team key ('1SW', case-insensitive) or a team UUID.
+// Teams are fetched once and cached; a miss reloads the list at most every TEAM_CACHE_REFRESH_MS (new teams).
+async function findTeam(keyOrId: string): Promise<TeamRef | undefined> {
+    const needle = keyOrId.trim();
+    const find = (teams: TeamRef[]) => teams.find(t => t.id === needle || t.key.toUpperCase() === needle.toUpperCase());
+
+    const cached = teamCache ? find(teamCache.teams) : undefined;
+    if (cached) return cached;
+    if (teamCache && Date.now() - teamCache.loadedAt < TEAM_CACHE_REFRESH_MS) return undefined;
+
+    return find(await loadTeams());
+}
+
+async function resolveTeamForChannel(channelId: string, overrideKey?: string, locale: Locale = channelLocale(channelId)): Promise<{ team: TeamRef; error?: undefined } | { team?: undefined; error: string }> {
+    const source = overrideKey || ThreadMappingStore.getChannelSettings(channelId).teamKey || process.env.LINEAR_TEAM_ID;
+    if (!source) {
+        return { error: t(locale, 'common.noChannelTeam') };
+    }
+
+    const team = await findTeam(source);
+    if (!team) {
+        return { error: t(locale, 'common.teamNotFound', { team: source }) };
+    }
+
+    return { team };
+}
+
+// "/이슈! APP: 로그인 버그" -> { teamKey: 'APP', title: '로그인 버그' }
+// Only treated as an override when the prefix is an existing team key, so "API: timeout" stays a title.
+async function parseTeamOverride(text: string): Promise<{ teamKey?: string; title: string }> {
+    const match = text.match(/^([A-Za-z0-9]{1,10}):\s*([\s\S]+)$/);
+    if (match && await findTeam(match[1])) {
+        return { teamKey: match[1].toUpperCase(), title: match[2].trim() };
+    }
+    return { title: text };
+}
+
+const SLACK_ADMIN_USER_IDS = (process.env.SLACK_ADMIN_USER_IDS || '').split(',').map(s => s.trim()).filter(Boolean);
+
+// Workspace admins/owners, plus anyone listed in SLACK_ADMIN_USER_IDS
+// Permission checks read users.info directly; the identity cache could keep a demoted admin around
+async function isSlackAdmin(client: any, userId: string): Promise<boolean> {
+    if (SLACK_ADMIN_USER_IDS.includes(userId)) return true;
+    const slackUser = (await client.users.info({ user: userId })).user;
+    return !!(slackUser?.is_admin || slackUser?.is_owner);
+}
+
+// -------------------------------------------------------------
+// HELPER: File Attachments (Slack <-> Linear)
+// - Slack -> Linear: download with the bot token (files:read), upload to Linear file storage,
+//   embed as markdown image/link in the synced comment.
+// - Linear -> Slack: uploads.linear.app URLs need the API key, so images are downloaded
+//   and re-uploaded into the thread (files:write). Public image URLs are shown as image blocks.
 // -------------------------------------------------------------
-const THREAD_MAP_FILE = path.join(__dirname, '../thread_map.json');
+const MAX_SYNC_FILE_BYTES = 25 * 1024 * 1024;
+const LINEAR_UPLOAD_HOST = 'uploads.linear.app';
+
+async function uploadSlackFileToLinear(file: any, locale: Locale): Promise<string | null> {
+    const name = file.name || file.title || 'file';
+    const url = file.url_private_download || file.url_private;
+
+    if (!url) return null;
+    if (file.size > MAX_SYNC_FILE_BYTES) {
+        return t(locale, 'file.tooLarge', { name });
+    }
+
+    const download = await fetch(url, { headers: { Authorization: `Bearer ${process.env.SLACK_BOT_TOKEN}` } });
+    if (!download.ok) throw new Error(`Failed to download Slack file ${file.id}: ${download.status}`);
+    const contents = Buffer.from(await download.arrayBuffer());
+
+    const contentType = file.mimetype || 'application/octet-stream';
+    const upload = await linearClient.fileUpload(contentType, name, contents.length);
+    const target = upload.uploadFile;
+    if (!target) throw new Error(`Linear did not return an upload URL for ${name}`);
 
-interface ThreadMap {
-    [issueIdentifier: string]: {
-        channelId: string;
-        threadTs: string;
+    const headers: Record<string, string> = {
+        'Content-Type': contentType,
+        'Cache-Control': 'public, max-age=31536000'
     };
+    for (const h of target.headers) headers[h.key] = h.value;
+
+    const put = await fetch(target.uploadUrl, { method: 'PUT', headers, body: contents });
+    if (!put.ok) throw new Error(`Failed to upload ${name} to Linear: ${put.status}`);
+
+    // The Slack file ID rides along as the link title, so edits can tell which uploads they already have
+    return contentType.startsWith('image/')
+        ? `![${name}](${target.assetUrl} "${file.id}")`
+        : `📎 [${name}](${target.assetUrl} "${file.id}")`;
+}
+
+// Upload lines already in a synced comment body, keyed by Slack file ID (the link title)
+function extractLinearFileLines(body: string): Map<string, string> {
+    const lines = new Map<string, string>();
+    for (const line of body.split('\n')) {
+        const m = line.trim().match(/^(?:!|📎 )\[[^\]]*\]\((https:\/\/[^)\s]+) "([^"]+)"\)$/);
+        if (m && m[1].startsWith(`https://${LINEAR_UPLOAD_HOST}/`)) lines.set(m[2], line.trim());
+    }
+    return lines;
+}
+
+// Markdown lines for every file attached to a Slack message; failures become a plain note instead of dropping the comment.
+// existingBody (edits): files already uploaded for this comment are reused instead of uploaded again.
+async function buildLinearFileMarkdown(files: any[] | undefined, locale: Locale, existingBody?: string): Promise<string[]> {
+    const existing = existingBody ? extractLinearFileLines(existingBody) : new Map<string, string>();
+    const lines: string[] = [];
+    for (const file of files || []) {
+        const uploaded = file?.id && existing.get(file.id);
+        if (uploaded) {
+            lines.push(uploaded);
+            continue;
+        }
+        try {
+            const line = await uploadSlackFileToLinear(file, locale);
+            if (line) lines.push(line);
+        } catch (e) {
+            console.error(`[Sync Error s->l] File ${file?.id}`, e);
+            lines.push(t(locale, 'file.uploadFailed', { name: file?.name || 'file' }));
+        }
+    }
+    return lines;
+}
+
+const MARKDOWN_IMAGE_REGEX = /!\[([^\]]*)\]\((https?:\/\/[^)\s]+)(?:\s+"[^"]*")?\)/g;
+
+// Splits a Linear markdown body into text (images replaced by their alt text) and image references
+function extractMarkdownImages(body: string): { text: string; images: { alt: string; url: string }[] } {
+    const images: { alt: string; url: string }[] = [];
+    const text = body.replace(MARKDOWN_IMAGE_REGEX, (_m, alt: string, url: string) => {
+        images.push({ alt: alt || 'image', url });
+        return `🖼️ ${alt || 'image'}`;
+    });
+    return { text: text.trim(), images };
 }
 
-const ThreadMappingStore = {
-    load: (): ThreadMap => {
+async function relayLinearImagesToSlack(params: { client: any; channelId: string; threadTs: string; images: { alt: string; url: string }[] }) {
+    const { client, channelId, threadTs, images } = params;
+
+    for (const image of images) {
         try {
-            if (fs.existsSync(THREAD_MAP_FILE)) {
-                return JSON.parse(fs.readFileSync(THREAD_MAP_FILE, 'utf-8'));
+            if (new URL(image.url).hostname !== LINEAR_UPLOAD_HOST) {
+                await client.chat.postMessage({
+                    channel: channelId,
+                    thread_ts: threadTs,
+                    text: image.alt,
+                    blocks: [{ type: 'image', image_url: image.url, alt_text: image.alt }]
+                });
+                continue;
             }
+
+            const download = await fetch(image.url, { headers: { Authorization: linearAuthHeader() } });
+            if (!download.ok) throw new Error(`Failed to download Linear upload: ${download.status}`);
+
+            const filename = decodeURIComponent(new URL(image.url).pathname.split('/').pop() || 'image');
+            await client.files.uploadV2({
+                channel_id: channelId,
+                thread_ts: threadTs,
+                file: Buffer.from(await download.arrayBuffer()),
+                filename,
+                title: image.alt
+            });
         } catch (e) {
-            console.error("Failed to load thread map", e);
+            console.error(`[Sync Error l->s] Image ${image.url}`, e);
+            await client.chat.postMessage({ channel: channelId, thread_ts: threadTs, text: `🖼️ <${image.url}|${image.alt}>` });
         }
-        return {};
-    },
-    save: (data: ThreadMap) => {
+    }
+}
+
+// -------------------------------------------------------------
+// HELPER: Slack-origin comments + loop prevention
+// - Comments the bot creates are recorded by Linear comment ID (comment_mappings, origin 'slack'),
+//   and the webhook skips those IDs instead of looking for a text marker.
+// - With an app token the comment is shown as the Slack author (name + avatar) and the webhook
+//   actor is the bot's own viewer, which is skipped as well.
+// - With a personal API key the author is still credited in a short footer; it is display-only.
+// -------------------------------------------------------------
+let viewerIdPromise: Promise<string> | null = null;
+const getViewerId = () => viewerIdPromise ??= linearClient.viewer.then(v => v.id);
+
+// issueId -> in-flight "create comment + record mapping" runs; a Comment webhook can beat the mapping write
+const pendingSlackComments = new Map<string, Set<Promise<unknown>>>();
+
+async function trackPendingSlackComment<T>(issueId: string, run: Promise<T>): Promise<T> {
+    const pending = pendingSlackComments.get(issueId) || new Set<Promise<unknown>>();
+    pendingSlackComments.set(issueId, pending);
+    pending.add(run);
+    try {
+        return await run;
+    } finally {
+        pending.delete(run);
+        if (pending.size === 0) pendingSlackComments.delete(issueId);
+    }
+}
+
+async function isBotCreatedComment(data: any, actor: any): Promise<boolean> {
+    await Promise.allSettled([...(pendingSlackComments.get(data.issueId) || [])]);
+    if (ThreadMappingStore.getComment(data.id)) return true;
+    return LINEAR_ACTS_AS_APP && !!actor?.id && actor.id === await getViewerId();
+}
+
+// Mentions in synced comments go through the identity map, the same way commands match users
+const mentionResolver: MentionResolver = {
+    linearProfileUrlForSlackUser: async (slackUserId) => {
         try {
-            fs.writeFileSync(THREAD_MAP_FILE, JSON.stringify(data, null, 2));
+            const { linearUser } = await linearUserForSlackUser(app.client, slackUserId);
+            return linearUser?.url || null;
         } catch (e) {
-            console.error("Failed to save thread map", e);
+            console.warn(`[Sync] Could not resolve Slack user ${slackUserId} for mention`, e);
+            return null;
         }
     },
-    get: (issueIdentifier: string) => {
-        const data = ThreadMappingStore.load();
-        return data[issueIdentifier];
-    },
-    set: (issueIdentifier: string, channelId: string, threadTs: string) => {
-        const data = ThreadMappingStore.load();
-        data[issueIdentifier] = { channelId, threadTs };
-        ThreadMappingStore.save(data);
+    slackUserForLinearName: async (linearName) => {
+        try {
+            const linearUser = await getLinearUserByDisplayName(linearName);
+            return linearUser ? await slackUserForLinearUser(linearUser) : null;
+        } catch (e) {
+            return null;
+        }
     }
 };
 
+type SlackAuthor = { name: string; avatarUrl?: string };
+
+async function getSlackAuthor(client: any, userId: string): Promise<SlackAuthor> {
+    const slackUser = await getSlackUser(client, userId);
+    return {
+        name: slackUser?.profile?.display_name || slackUser?.real_name || "Slack User",
+        avatarUrl: slackUser?.profile?.image_192
+    };
+}
+
+const buildSlackCommentBody = (content: string, author: SlackAuthor) => LINEAR_ACTS_AS_APP
+    ? content
+    : `${content}\n\n_(from Slack by ${author.name})_`;
+
+// Display identity for createComment (app token only)
+const slackAuthorIdentity = (author: SlackAuthor) => LINEAR_ACTS_AS_APP
+    ? { createAsUser: author.name, displayIconUrl: author.avatarUrl }
+    : {};
+
+
 // -------------------------------------------------------------
 // FEATURE: Slack -> Linear Comment Sync
 // -------------------------------------------------------------
-app.message(async ({ message, client }) => {
-    // 1. Ignore bot messages / subtype messages (like thread_broadcast)
-    if ((message as any).subtype || (message as any).bot_id) return;
+app.message(async ({ message, client, context }) => {
+    // 1. Ignore bot messages / subtype messages (like thread_broadcast), except file uploads
+    const subtype = (message as any).subtype;
+    if ((subtype && subtype !== 'file_share') || (message as any).bot_id) return;
+    // Files the bot re-uploaded from Linear come back as file_share from the bot user
+    if ((message as any).user === context.botUserId) return;
 
     // 2. Check if in a thread (has thread_ts)
     if (!(message as any).thread_ts) return;
@@ -142,53 +545,46 @@ app.message(async ({ message, client }) => {
         const threadTs = (message as any).thread_ts;
         const channelId = (message as any).channel;
         const text = (message as any).text;
+        const files = (message as any).files;
         const user = (message as any).user;
 
-        // 3. Get Root Message to find Issue ID
-        const history = await client.conversations.replies({
-            channel: channelId,
-            ts: threadTs,
-            latest: threadTs,
-            limit: 1,
-            inclusive: true
-        });
-
-        const rootMessage = history.messages?.[0];
-        if (!rootMessage || !rootMessage.text) return;
-
-        // Extract Issue Identifier: e.g., "[1SW-123]" or "(1SW-123)" or plain "1SW-123"
-        const match = rootMessage.text.match(/\b([A-Z0-9]+-\d+)\b/);
-        if (!match) return;
+        // 3. Only threads linked to an issue are synced (/이슈!, shortcuts, "이슈 연결")
+        const mapping = ThreadMappingStore.getByThread(channelId, threadTs);
+        if (!mapping) return;
+        const issueIdentifier = mapping.issueIdentifier;
 
-        const issueIdentifier = match[1];
-        const lastDashIndex = issueIdentifier.lastIndexOf('-');
-        const teamKey = issueIdentifier.substring(0, lastDashIndex);
-        const issueNumber = parseInt(issueIdentifier.substring(lastDashIndex + 1), 10);
+        console.log(`[Sync] Found Reply to Issue ${issueIdentifier}`);
 
-        console.log(`[Sync] Found Reply to Issue ${issueIdentifier} (Key: ${teamKey}, No: ${issueNumber})`);
+        // 4. Find Linear Issue (legacy mappings only have the identifier, which issue() also accepts)
+        const issue = await linearClient.issue(mapping.issueId || issueIdentifier);
 
-        // 4. Find Linear Issue
-        const issues = await linearClient.issues({
-            filter: {
-                number: { eq: issueNumber },
-                team: { key: { eq: teamKey } }
-            }
-        });
+        // 5. Create Comment on Linear as the Slack author
+        const author = await getSlackAuthor(client, user);
 
-        if (issues.nodes.length === 0) return;
-        const issue = issues.nodes[0];
+        const fileLines = await buildLinearFileMarkdown(files, channelLocale(channelId));
+        const markdown = text ? await slackToLinearMarkdown(text, mentionResolver) : '';
+        const content = [markdown, ...fileLines].filter(Boolean).join('\n\n');
 
-        // 5. Create Comment on Linear
-        // Get user name for better context
-        const userInfo = await client.users.info({ user });
-        const userName = userInfo.user?.real_name || "Slack User";
+        if (content) {
+            await trackPendingSlackComment(issue.id, (async () => {
+                const payload = await linearClient.createComment({
+                    issueId: issue.id,
+                    body: buildSlackCommentBody(content, author),
+                    ...slackAuthorIdentity(author)
+                });
 
-        if (text) {
-            await linearClient.createComment({
-                issueId: issue.id,
-                body: `${text}\n\n_(from Slack by ${userName})_`
-            });
-            console.log(`[Sync] Posted comment to Linear Issue ${issueIdentifier}`);
+                // Remember which Linear comment this reply became: loop prevention + edit/delete sync
+                if (payload.commentId) {
+                    ThreadMappingStore.setComment({
+                        linearCommentId: payload.commentId,
+                        issueId: issue.id,
+                        channelId,
+                        slackTs: (message as any).ts,
+                        origin: 'slack'
+                    });
+                }
+            })());
+            console.log(`[Sync] Posted comment to Linear Issue ${issueIdentifier} (${fileLines.length} file(s))`);
         }
 
     } catch (error) {
@@ -196,916 +592,4466 @@ app.message(async ({ message, client }) => {
     }
 });
 
-
 // -------------------------------------------------------------
-// FEATURE: Linear -> Slack Bidirectional Sync (Webhook)
-// Endpoint: /linear/webhook
+// FEATURE: Slack -> Linear Comment Edit/Delete Sync
+// Only replies that were synced from Slack (origin 'slack') are touched.
 // -------------------------------------------------------------
-receiver.router.post('/linear/webhook', async (req, res) => {
-    // Acknowledge immediately
-    res.status(200).send();
-
-    try {
-        const body = req.body;
-        const { action, type, data } = body;
-
-        // Filter: Only care about Issue Updates or Comment Creates
-        if (type !== 'Issue' && type !== 'Comment') return;
+app.message(subtype('message_changed'), async ({ message, client, context }) => {
+    const channelId = (message as any).channel;
+    const edited = (message as any).message;
+    const previous = (message as any).previous_message;
 
-        // 1. Identify the Issue Identifier
-        let issueIdentifier = '';
-        let messageText = '';
-
-        if (type === 'Issue' && action === 'update') {
-            // E.g. Status change
-            const stateId = data.stateId;
-            const previousStateId = body.updatedFrom?.stateId;
-
-            if (stateId && previousStateId && stateId !== previousStateId) {
-                const issue = await linearClient.issue(data.id);
-                const state = await issue.state;
-
-                issueIdentifier = issue.identifier;
-                messageText = `🛠️ *상태 변경*: ${state?.name}`;
-            } else if (data.assigneeId && body.updatedFrom?.assigneeId !== undefined) {
-                // Assignee changed
-                const issue = await linearClient.issue(data.id);
-                const assignee = await issue.assignee;
-                issueIdentifier = issue.identifier;
-                messageText = `👤 *담당자 변경*: ${assignee ? assignee.name : 'Unassigned'}`;
-            }
-
-        } else if (type === 'Comment' && action === 'create') {
-            const commentBody = data.body;
-            // Loop Prevention: If comment contains "(from Slack by ...)", ignore it
-            if (commentBody?.includes('(from Slack by')) return;
+    // Our own chat.update calls and non-text changes (unfurls, reactions) also arrive as message_changed
+    if (!edited || edited.bot_id || edited.user === context.botUserId) return;
+    if (edited.text === previous?.text) return;
 
-            const issue = await linearClient.issue(data.issueId);
-            const user = await linearClient.user(data.userId);
+    const mapping = ThreadMappingStore.getCommentBySlackTs(channelId, edited.ts);
+    if (!mapping || mapping.origin !== 'slack') return;
 
-            issueIdentifier = issue.identifier;
-            messageText = `💬 *새로운 댓글 (${user.name})*:\n${commentBody}`;
-        }
+    try {
+        const author = await getSlackAuthor(client, edited.user);
 
-        if (!issueIdentifier || !messageText) return;
+        // Only files added since the last sync are uploaded; the rest keep their Linear links
+        const existingBody = edited.files?.length ? (await linearClient.comment({ id: mapping.linearCommentId })).body : undefined;
+        const fileLines = await buildLinearFileMarkdown(edited.files, channelLocale(channelId), existingBody);
+        const markdown = edited.text ? await slackToLinearMarkdown(edited.text, mentionResolver) : '';
+        const content = [markdown, ...fileLines].filter(Boolean).join('\n\n');
+        if (!content) return;
 
-        console.log(`[Sync] Webhook received for ${issueIdentifier} - ${messageText}`);
+        await linearClient.updateComment(mapping.linearCommentId, { body: buildSlackCommentBody(content, author) });
+        console.log(`[Sync] Updated Linear comment ${mapping.linearCommentId} from Slack edit`);
+    } catch (error) {
+        console.error(`[Sync Error s->l]`, error);
+    }
+});
 
-        // 2. Find Slack Thread
-        // Strategy: Try ThreadMappingStore first, then fallback to search.messages
-        let channelId: string | undefined;
-        let threadTs: string | undefined;
+app.message(subtype('message_deleted'), async ({ message }) => {
+    const channelId = (message as any).channel;
+    const deletedTs = (message as any).deleted_ts || (message as any).previous_message?.ts;
 
-        const mapped = ThreadMappingStore.get(issueIdentifier);
-        if (mapped) {
-            channelId = mapped.channelId;
-            threadTs = mapped.threadTs;
-            console.log(`[Sync] Found mapped thread for ${issueIdentifier}`);
-        } else {
-            console.log(`[Sync] No map found for ${issueIdentifier}, trying search...`);
-            const searchResult = await app.client.search.messages({
-                query: `"${issueIdentifier}"`, // Quote for exact phrase
-                sort: 'timestamp',
-                sort_dir: 'desc',
-                count: 1
-            });
+    const mapping = ThreadMappingStore.getCommentBySlackTs(channelId, deletedTs);
+    if (!mapping) return;
 
-            const match = searchResult.messages?.matches?.[0];
-            if (match) {
-                channelId = match.channel?.id;
-                threadTs = match.ts;
-                // Auto-save mapping for future
-                if (channelId && threadTs) {
-                    ThreadMappingStore.set(issueIdentifier, channelId, threadTs);
-                }
-            }
-        }
+    try {
+        // Drop the mapping first so the resulting Linear webhook (or our own chat.delete echo) finds nothing to do
+        ThreadMappingStore.deleteComment(mapping.linearCommentId);
 
-        if (channelId && threadTs) {
-            await app.client.chat.postMessage({
-                channel: channelId,
-                thread_ts: threadTs,
-                text: messageText
-            });
-            console.log(`[Sync] Updated Slack thread for ${issueIdentifier}`);
-        } else {
-            console.log(`[Sync] Could not find Slack thread for ${issueIdentifier}`);
+        if (mapping.origin === 'slack') {
+            await linearClient.deleteComment(mapping.linearCommentId);
+            console.log(`[Sync] Deleted Linear comment ${mapping.linearCommentId} from Slack delete`);
         }
-
     } catch (error) {
-        console.error(`[Sync Error l->s]`, error);
+        console.error(`[Sync Error s->l]`, error);
     }
 });
 
+// -------------------------------------------------------------
+// HELPER: Linear Webhook Verification
+// - Linear-Signature: HMAC-SHA256(raw body, LINEAR_WEBHOOK_SECRET) as hex
+// - webhookTimestamp: reject deliveries older than LINEAR_WEBHOOK_MAX_AGE_MS
+// - Linear-Delivery: drop retries/replays of a delivery we already handled
+// -------------------------------------------------------------
+const LINEAR_WEBHOOK_SECRET = process.env.LINEAR_WEBHOOK_SECRET;
+const LINEAR_WEBHOOK_MAX_AGE_MS = Number(process.env.LINEAR_WEBHOOK_MAX_AGE_MS) || 60 * 1000;
+const WEBHOOK_DELIVERY_TTL_MS = 60 * 60 * 1000;
 
-// Slack Command Handler
-app.command('/이슈!', async ({ command, ack, respond, client }) => {
-    console.log(`[Debug] Command received: ${command.command} with text: ${command.text}`);
-    await ack();
+if (!LINEAR_WEBHOOK_SECRET) {
+    console.warn("[Webhook] LINEAR_WEBHOOK_SECRET is not set. Signature verification is DISABLED (dev only).");
+}
 
-    const title = command.text.trim();
-    if (!title) {
-        await respond({
-            text: "❌ 제목을 입력해주세요. 예: `/이슈! 로그인 버그 수정`",
-            response_type: 'ephemeral'
-        });
-        return;
+// deliveryId -> expiresAt
+const seenWebhookDeliveries = new Map<string, number>();
+
+function isDuplicateDelivery(deliveryId: string | undefined): boolean {
+    if (!deliveryId) return false;
+
+    const now = Date.now();
+    for (const [id, expiresAt] of seenWebhookDeliveries) {
+        if (expiresAt <= now) seenWebhookDeliveries.delete(id);
     }
 
-    try {
-        // 1. Get Slack User Info (Email)
-        const slackUser = await client.users.info({ user: command.user_id });
-        const userEmail = slackUser.user?.profile?.email;
+    if (seenWebhookDeliveries.has(deliveryId)) return true;
+    seenWebhookDeliveries.set(deliveryId, now + WEBHOOK_DELIVERY_TTL_MS);
+    return false;
+}
 
-        if (!userEmail) {
-            await respond({
-                text: "❌ Slack 프로필에서 이메일을 찾을 수 없습니다.",
-                response_type: 'ephemeral'
-            });
-            return;
-        }
+function verifyLinearWebhook(req: any): string | null {
+    if (LINEAR_WEBHOOK_SECRET) {
+        const signature = req.get('linear-signature');
+        const rawBody: Buffer | undefined = req.rawBody;
 
-        // 2. Match Linear User
-        const linearUser = await getLinearUserByEmail(userEmail);
-        if (!linearUser) {
-            await respond({
-                text: `❌ Linear에서 이메일(${userEmail})에 해당하는 사용자를 찾을 수 없습니다.`,
-                response_type: 'ephemeral'
-            });
-            return;
-        }
+        if (!signature) return 'missing Linear-Signature header';
+        if (!rawBody) return 'missing raw body';
 
-        // 3. Get Team and Cycle
-        let teamId = process.env.LINEAR_TEAM_ID;
-        if (!teamId) {
-            await respond({
-                text: "❌ 서버 설정 오류: LINEAR_TEAM_ID가 설정되지 않았습니다.",
-                response_type: 'ephemeral'
-            });
-            return;
+        const expected = crypto.createHmac('sha256', LINEAR_WEBHOOK_SECRET).update(rawBody).digest();
+        const received = Buffer.from(String(signature), 'hex');
+        if (received.length !== expected.length || !crypto.timingSafeEqual(received, expected)) {
+            return 'invalid signature';
         }
+    }
 
-        console.log(`[Debug] Using Team Identifier: ${teamId}`);
+    const webhookTimestamp = Number(req.body?.webhookTimestamp);
+    if (!webhookTimestamp) return 'missing webhookTimestamp';
+    if (Math.abs(Date.now() - webhookTimestamp) > LINEAR_WEBHOOK_MAX_AGE_MS) {
+        return `stale webhookTimestamp (${new Date(webhookTimestamp).toISOString()})`;
+    }
 
-        // Support Team Identifier (e.g. '1SW') by fetching the actual team UUID
-        if (teamId.length <= 5) {
-            try {
-                const team = await linearClient.team(teamId);
-                if (team) {
-                    teamId = team.id;
-                    console.log(`[Debug] Resolved Team ID: ${teamId}`);
-                } else {
-                    throw new Error(`Team with identifier '${teamId}' not found.`);
-                }
-            } catch (err) {
-                await respond({
-                    text: `❌ Linear 팀(${teamId})을 찾을 수 없습니다. Identifier를 확인해주세요.`,
-                    response_type: 'ephemeral'
-                });
-                return;
-            }
-        }
+    return null;
+}
 
-        const currentCycle = await getCurrentCycle(teamId);
-        console.log(`[Debug] Current Cycle: ${currentCycle ? currentCycle.number : 'None'}`);
+const formatLinearCommentForSlack = (locale: Locale, userName: string, text: string, edited = false) =>
+    t(locale, 'relay.comment', { user: userName, text }) + (edited ? `\n${t(locale, 'relay.edited')}` : '');
 
-        // 4. Create Issue
-        const issuePayload: any = {
-            teamId: teamId,
-            title: title,
-            assigneeId: linearUser.id,
-            stateId: undefined,
-        };
+// Comment update/remove: only comments that were relayed from Linear (origin 'linear') have a bot message to change.
+// Slack-origin comments are skipped - those webhooks are echoes of our own updateComment/deleteComment.
+async function handleLinearCommentChange(action: string, data: any, updatedFrom: any) {
+    const mapping = ThreadMappingStore.getComment(data.id);
+    if (!mapping || mapping.origin !== 'linear') return;
 
-        if (currentCycle) {
-            issuePayload.cycleId = currentCycle.id;
-        }
+    if (action === 'remove') {
+        ThreadMappingStore.deleteComment(data.id);
+        await app.client.chat.delete({ channel: mapping.channelId, ts: mapping.slackTs });
+        console.log(`[Sync] Deleted Slack message for Linear comment ${data.id}`);
+        return;
+    }
 
-        const issueCreate = await linearClient.createIssue(issuePayload);
-        const issue = await issueCreate.issue;
+    // Other comment updates (resolve, reactions...) don't change the body
+    if (updatedFrom?.body === undefined) return;
 
-        if (!issue) {
-            throw new Error("Failed to fetch created issue details.");
-        }
+    const user = await linearClient.user(data.userId);
+    const { text } = extractMarkdownImages(data.body || '');
+    await app.client.chat.update({
+        channel: mapping.channelId,
+        ts: mapping.slackTs,
+        text: formatLinearCommentForSlack(channelLocale(mapping.channelId), user.name, await linearToSlackMrkdwn(text, mentionResolver), true)
+    });
+    console.log(`[Sync] Updated Slack message for Linear comment ${data.id}`);
+}
 
-        // Fetch all Linear users for the dropdown
-        const usersResponse = await linearClient.users();
-        const userOptions = usersResponse.nodes
-            .filter(u => u.active)
-            .map(u => ({
-                text: { type: "plain_text" as const, text: u.name },
-                value: JSON.stringify({ issueId: issue.id, userId: u.id })
-            }))
-            .slice(0, 100); // Slack limit
+// Issue fields shown on the root card
+const CARD_FIELDS = ['title', 'assigneeId', 'cycleId', 'stateId', 'priority', 'labelIds', 'dueDate', 'projectId', 'estimate', 'parentId'];
+const isCardRelevantUpdate = (updatedFrom: any) => !!updatedFrom && CARD_FIELDS.some(f => f in updatedFrom);
 
-        // 5. Post Root Message
-        const buildVersion = currentCycle
-            ? (currentCycle.name || `V.1.0.${currentCycle.number}`)
-            : 'None';
+// -------------------------------------------------------------
+// HELPER: Issue change summary (Linear -> Slack)
+// - Every field in updatedFrom is diffed into one message per webhook.
+// - Each change has a kind; channels can mute kinds with `/이슈설정 알림 끄기 <종류>`.
+// -------------------------------------------------------------
+const RELAY_EVENT_KINDS = ['state', 'assignee', 'priority', 'dueDate', 'labels', 'cycle', 'title', 'project', 'estimate', 'archive', 'comment'] as const;
+type RelayEventKind = typeof RELAY_EVENT_KINDS[number];
 
-        const rootMessage = await client.chat.postMessage({
-            channel: command.channel_id,
-            text: `${title} (${issue.identifier})`,
-            blocks: [
-                {
-                    type: "section",
-                    text: {
-                        type: "mrkdwn",
-                        text: `<${issue.url}|*${title}*>`
-                    }
-                },
-                {
-                    type: "context",
-                    elements: [
-                        {
-                            type: "mrkdwn",
-                            text: `Issue: \`${issue.identifier}\``
-                        }
-                    ]
-                },
-                {
-                    type: "section",
-                    fields: [
-                        {
-                            type: "mrkdwn",
-                            text: `*담당자:*\n${linearUser.name}`
-                        },
-                        {
-                            type: "mrkdwn",
-                            text: `*빌드:*\n${buildVersion}`
-                        },
-                        {
-                            type: "mrkdwn",
-                            text: `*상태:*\nTodo`
-                        }
-                    ]
-                },
-                {
-                    type: "section",
-                    text: {
-                        type: "mrkdwn",
-                        text: "우선순위, 기한, 라벨 등을 설정하고 싶다면 👉"
-                    },
-                    accessory: {
-                        type: "button",
-                        text: {
-                            type: "plain_text",
-                            text: "리니어에서 확인하기 🚀",
-                            emoji: true
-                        },
-                        url: issue.url,
-                        action_id: "view_issue",
-                        style: "primary"
-                    }
-                },
+const relayKindLabel = (locale: Locale, kind: RelayEventKind) => t(locale, `field.${kind}`);
+
+interface IssueChange {
+    kind: RelayEventKind;
+    text: string;
+}
+
+// Accepts the key ('priority') or its name in any locale ('우선순위', 'Priority')
+function parseRelayEventKind(value: string): RelayEventKind | undefined {
+    const lower = value.toLowerCase();
+    return RELAY_EVENT_KINDS.find(k => k.toLowerCase() === lower || LOCALES.some(l => relayKindLabel(l, k).toLowerCase() === lower));
+}
+
+const isRelayedInChannel = (channelId: string, kind: RelayEventKind) =>
+    !(ThreadMappingStore.getChannelSettings(channelId).mutedEvents || []).includes(kind);
+
+// updatedFrom only carries previous IDs; entities that no longer exist resolve to null
+async function lookupName(fetch: () => Promise<{ name?: string | null } | undefined>): Promise<string | null> {
+    try {
+        return (await fetch())?.name ?? null;
+    } catch {
+        return null;
+    }
+}
+
+async function lookupBuildVersion(cycleId: string | null | undefined): Promise<string | null> {
+    if (!cycleId) return null;
+    try {
+        return formatBuildVersion(await linearClient.cycle(cycleId));
+    } catch {
+        return null;
+    }
+}
+
+async function describeIssueChanges(data: any, updatedFrom: any, locale: Locale): Promise<IssueChange[]> {
+    if (!updatedFrom) return [];
+
+    const changes: IssueChange[] = [];
+    const changed = (field: string) => field in updatedFrom;
+    const arrow = (from: string | null | undefined, to: string | null | undefined, empty = t(locale, 'common.none')) =>
+        ({ change: `${from ?? empty} → ${to ?? empty}` });
+
+    if (changed('title')) {
+        changes.push({ kind: 'title', text: t(locale, 'relay.title', { from: updatedFrom.title, to: data.title }) });
+    }
+
+    if (changed('stateId') && updatedFrom.stateId !== data.stateId) {
+        const [from, to] = await Promise.all([
+            updatedFrom.stateId ? lookupName(() => linearClient.workflowState(updatedFrom.stateId)) : null,
+            data.state?.name ?? lookupName(() => linearClient.workflowState(data.stateId))
+        ]);
+        changes.push({ kind: 'state', text: t(locale, 'relay.state', arrow(from, to)) });
+    }
+
+    // assigneeId -> null is an unassignment
+    if (changed('assigneeId') && updatedFrom.assigneeId !== data.assigneeId) {
+        const [from, to] = await Promise.all([
+            updatedFrom.assigneeId ? lookupName(() => linearClient.user(updatedFrom.assigneeId)) : null,
+            data.assigneeId ? (data.assignee?.name ?? lookupName(() => linearClient.user(data.assigneeId))) : null
+        ]);
+        changes.push({ kind: 'assignee', text: t(locale, 'relay.assignee', arrow(from, to, t(locale, 'common.unassigned'))) });
+    }
+
+    if (changed('priority') && updatedFrom.priority !== data.priority) {
+        changes.push({
+            kind: 'priority',
+            text: t(locale, 'relay.priority', arrow(priorityLabel(locale, updatedFrom.priority ?? 0), priorityLabel(locale, data.priority ?? 0)))
+        });
+    }
+
+    if (changed('dueDate') && updatedFrom.dueDate !== data.dueDate) {
+        changes.push({ kind: 'dueDate', text: t(locale, 'relay.dueDate', arrow(updatedFrom.dueDate, data.dueDate)) });
+    }
+
+    if (changed('labelIds')) {
+        const before: string[] = updatedFrom.labelIds || [];
+        const after: string[] = data.labelIds || [];
+        const currentNames = new Map<string, string>((data.labels || []).map((l: any) => [l.id, l.name]));
+
+        const added = await Promise.all(after.filter(id => !before.includes(id))
+            .map(async id => currentNames.get(id) ?? await lookupName(() => linearClient.issueLabel(id)) ?? id));
+        const removed = await Promise.all(before.filter(id => !after.includes(id))
+            .map(async id => await lookupName(() => linearClient.issueLabel(id)) ?? id));
+
+        const parts = [...added.map(n => `+${n}`), ...removed.map(n => `~${n}~`)];
+        if (parts.length > 0) changes.push({ kind: 'labels', text: t(locale, 'relay.labels', { change: parts.join(', ') }) });
+    }
+
+    if (changed('cycleId') && updatedFrom.cycleId !== data.cycleId) {
+        const [from, to] = await Promise.all([lookupBuildVersion(updatedFrom.cycleId), lookupBuildVersion(data.cycleId)]);
+        changes.push({ kind: 'cycle', text: t(locale, 'relay.cycle', arrow(from, to)) });
+    }
+
+    if (changed('projectId') && updatedFrom.projectId !== data.projectId) {
+        const [from, to] = await Promise.all([
+            updatedFrom.projectId ? lookupName(() => linearClient.project(updatedFrom.projectId)) : null,
+            data.projectId ? (data.project?.name ?? lookupName(() => linearClient.project(data.projectId))) : null
+        ]);
+        changes.push({ kind: 'project', text: t(locale, 'relay.project', arrow(from, to)) });
+    }
+
+    if (changed('estimate') && updatedFrom.estimate !== data.estimate) {
+        changes.push({ kind: 'estimate', text: t(locale, 'relay.estimate', arrow(updatedFrom.estimate?.toString(), data.estimate?.toString())) });
+    }
+
+    if (changed('archivedAt')) {
+        changes.push({ kind: 'archive', text: t(locale, data.archivedAt ? 'relay.archived' : 'relay.unarchived') });
+    }
+
+    // Deleting in Linear moves the issue to the trash first
+    if (changed('trashed')) {
+        changes.push({ kind: 'archive', text: t(locale, data.trashed ? 'relay.trashed' : 'relay.restored') });
+    }
+
+    return changes;
+}
+
+function formatIssueChangeSummary(locale: Locale, issueIdentifier: string, changes: IssueChange[], actorName?: string) {
+    const by = actorName ? t(locale, 'relay.by', { actor: actorName }) : '';
+    if (changes.length === 1) return `${changes[0].text}${by}`;
+    return t(locale, 'relay.summary', { identifier: issueIdentifier, by, changes: changes.map(c => `• ${c.text}`).join('\n') });
+}
+
+// -------------------------------------------------------------
+// FEATURE: Linear -> Slack Bidirectional Sync (Webhook)
+// Endpoint: /linear/webhook
+// -------------------------------------------------------------
+const CHILD_PROGRESS_FIELDS = ['stateId', 'parentId', 'archivedAt'];
+
+async function refreshParentCards(action: string, data: any, updatedFrom: any) {
+    if (action === 'update' && !CHILD_PROGRESS_FIELDS.some(f => updatedFrom && f in updatedFrom)) return;
+
+    // Both the new and the previous parent when an issue is moved
+    const parentIds = new Set<string>([data.parentId, updatedFrom?.parentId].filter(Boolean));
+    for (const parentId of parentIds) {
+        if (!ThreadMappingStore.getByIssueId(parentId)) continue;
+        try {
+            await refreshIssueCard(parentId);
+        } catch (error) {
+            console.error(`[Card] Failed to refresh parent card ${parentId}`, error);
+        }
+    }
+}
+
+receiver.router.post('/linear/webhook', async (req, res) => {
+    const deliveryId = req.get('linear-delivery');
+
+    const rejectReason = verifyLinearWebhook(req);
+    if (rejectReason) {
+        console.warn(`[Webhook] Rejected delivery ${deliveryId || '(no id)'} from ${req.ip}: ${rejectReason}`);
+        res.status(401).send(rejectReason);
+        return;
+    }
+
+    if (isDuplicateDelivery(deliveryId)) {
+        console.log(`[Webhook] Ignoring duplicate delivery ${deliveryId}`);
+        res.status(200).send();
+        return;
+    }
+
+    // Acknowledge immediately
+    res.status(200).send();
+
+    try {
+        const body = req.body;
+        const { action, type, data } = body;
+
+        // Filter: Only care about Issue Updates/Removes or Comment Creates/Updates/Removes
+        if (type !== 'Issue' && type !== 'Comment') return;
+
+        if (type === 'Comment' && (action === 'update' || action === 'remove')) {
+            await handleLinearCommentChange(action, data, body.updatedFrom);
+            return;
+        }
+
+        // Sub-issue created/removed/moved or its state changed -> parent card's progress line
+        if (type === 'Issue') {
+            await refreshParentCards(action, data, body.updatedFrom);
+        }
+
+        // 1. Only issues linked to a Slack thread are relayed; look that up before any Linear API call
+        const mappedIssueId = type === 'Issue' ? data.id : data.issueId;
+        const mapped = ThreadMappingStore.getByIssueId(mappedIssueId)
+            || (type === 'Issue' && data.identifier ? ThreadMappingStore.get(data.identifier) : undefined);
+        if (!mapped) return;
+
+        const issueIdentifier = mapped.issueIdentifier;
+        const issueId: string = mappedIssueId;
+        const channelId = mapped.channelId;
+        const threadTs = mapped.threadTs;
+        const locale = channelLocale(channelId);
+        let changes: IssueChange[] = [];
+        let images: { alt: string; url: string }[] = [];
+        let linearCommentId = '';
+
+        if (type === 'Issue' && (action === 'update' || action === 'remove')) {
+            // Keep the root card in sync with whatever changed in Linear
+            if (action === 'update' && isCardRelevantUpdate(body.updatedFrom)) {
+                await refreshIssueCard(data.id);
+            }
+
+            changes = action === 'remove'
+                ? [{ kind: 'archive', text: t(locale, 'relay.deleted') }]
+                : await describeIssueChanges(data, body.updatedFrom, locale);
+
+        } else if (type === 'Comment' && action === 'create') {
+            const commentBody = data.body;
+            // Loop Prevention: skip comments the bot created from Slack (by comment ID / bot actor)
+            if (await isBotCreatedComment(data, body.actor)) {
+                console.log(`[Sync] Skipping bot-created comment ${data.id}`);
+                return;
+            }
+
+            // Integration comments have no userId; fall back to the payload's actor
+            const userName = data.user?.name
+                || (data.userId ? (await linearClient.user(data.userId)).name : body.actor?.name || 'Linear');
+
+            const extracted = extractMarkdownImages(commentBody || '');
+            images = extracted.images;
+
+            linearCommentId = data.id;
+            changes = [{ kind: 'comment', text: formatLinearCommentForSlack(locale, userName, await linearToSlackMrkdwn(extracted.text, mentionResolver)) }];
+        }
+
+        if (changes.length === 0) return;
+
+        console.log(`[Sync] Webhook received for ${issueIdentifier} - ${changes.map(c => c.kind).join(', ')}`);
+
+        if (channelId && threadTs) {
+            const relayed = changes.filter(c => isRelayedInChannel(channelId, c.kind));
+            if (relayed.length === 0) {
+                console.log(`[Sync] All changes for ${issueIdentifier} are muted in ${channelId}`);
+                return;
+            }
+
+            const posted = await app.client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                text: linearCommentId ? relayed[0].text : formatIssueChangeSummary(locale, issueIdentifier, relayed, body.actor?.name)
+            });
+            if (linearCommentId && posted.ts) {
+                ThreadMappingStore.setComment({ linearCommentId, issueId, channelId, slackTs: posted.ts, origin: 'linear' });
+            }
+            if (images.length > 0) {
+                await relayLinearImagesToSlack({ client: app.client, channelId, threadTs, images });
+            }
+            console.log(`[Sync] Updated Slack thread for ${issueIdentifier}`);
+        }
+
+    } catch (error) {
+        console.error(`[Sync Error l->s]`, error);
+    }
+});
+
+
+// -------------------------------------------------------------
+// Issue creation helpers (shared by /이슈! and the message shortcut)
+// -------------------------------------------------------------
+type LinearUserMatch = { linearUser: User; error?: undefined } | { linearUser?: undefined; error: string };
+
+// Errors are shown to the Slack user themselves, in their locale
+async function matchLinearUserForSlackUser(client: any, slackUserId: string, locale: Locale): Promise<LinearUserMatch> {
+    const { linearUser, email, linked } = await linearUserForSlackUser(client, slackUserId);
+    if (linearUser) return { linearUser };
+
+    if (linked) return { error: t(locale, 'match.linkMissing') };
+    if (!email) return { error: t(locale, 'match.noEmail') };
+    return { error: t(locale, 'match.noLinearUser', { email }) };
+}
+
+function formatBuildVersion(cycle: { name?: string | null; number: number }) {
+    return cycle.name || `V.1.0.${cycle.number}`;
+}
+
+// Fetch all Linear users for the dropdown
+async function buildAssigneeOptions(issueId: string) {
+    const usersResponse = await linearClient.users();
+    return usersResponse.nodes
+        .filter(u => u.active)
+        .map(u => ({
+            text: { type: "plain_text" as const, text: u.name },
+            value: JSON.stringify({ issueId, userId: u.id })
+        }))
+        .slice(0, 100); // Slack limit
+}
+
+// Priority values used by Linear (0 = none, 1 = urgent ... 4 = low)
+const PRIORITY_KEYS: MessageKey[] = ['priority.0', 'priority.1', 'priority.2', 'priority.3', 'priority.4'];
+
+const priorityLabel = (locale: Locale, priority: number) => t(locale, PRIORITY_KEYS[priority] ?? PRIORITY_KEYS[0]);
+
+// -------------------------------------------------------------
+// Issue Card Renderer
+// The root card is always rendered from the current Linear issue, and re-rendered
+// (chat.update on the mapped cardTs) after every Slack action and relevant webhook.
+// -------------------------------------------------------------
+interface IssueCardData {
+    id: string;
+    identifier: string;
+    url: string;
+    title: string;
+    // Missing values are filled in by the renderer, in its locale
+    assigneeName?: string;
+    buildVersion?: string;
+    stateId?: string;
+    stateName?: string;
+    stateType?: string;
+    priority: number;
+    dueDate?: string;
+    labels: string[];
+    projectName?: string;
+    estimate?: number;
+    parent?: { identifier: string; url: string };
+    // Sub-issues, canceled ones excluded
+    children: { total: number; completed: number };
+}
+
+// Parent and sub-issue states in one request instead of one per child
+const ISSUE_RELATIONS_QUERY = `
+    query IssueRelations($id: String!) {
+        issue(id: $id) {
+            parent { identifier url }
+            children(first: 250) { nodes { state { type } } }
+        }
+    }
+`;
+
+interface IssueRelationsResponse {
+    issue: {
+        parent: { identifier: string; url: string } | null;
+        children: { nodes: { state: { type: string } | null }[] };
+    };
+}
+
+async function loadIssueCardData(issue: Issue): Promise<IssueCardData> {
+    const [assignee, cycle, state, labels, project, relations] = await Promise.all([
+        issue.assignee,
+        issue.cycle,
+        issue.state,
+        issue.labels(),
+        issue.project,
+        linearClient.client.request<IssueRelationsResponse, { id: string }>(ISSUE_RELATIONS_QUERY, { id: issue.id })
+    ]);
+    const children = relations.issue.children.nodes.filter(c => c.state?.type !== 'canceled');
+
+    return {
+        id: issue.id,
+        identifier: issue.identifier,
+        url: issue.url,
+        title: issue.title,
+        assigneeName: assignee?.name,
+        buildVersion: cycle ? formatBuildVersion(cycle) : undefined,
+        stateId: state?.id,
+        stateName: state?.name,
+        stateType: state?.type,
+        priority: issue.priority,
+        dueDate: issue.dueDate || undefined,
+        labels: labels.nodes.map(l => l.name),
+        projectName: project?.name,
+        estimate: issue.estimate ?? undefined,
+        parent: relations.issue.parent || undefined,
+        children: {
+            total: children.length,
+            completed: children.filter(c => c.state?.type === 'completed').length
+        }
+    };
+}
+
+// "상위 이슈 APP-1 · 하위 이슈 2/5 완료", or undefined when the issue has neither
+function formatIssueRelations(card: IssueCardData, locale: Locale): string | undefined {
+    const parts: string[] = [];
+    if (card.parent) parts.push(t(locale, 'card.parent', { link: `<${card.parent.url}|${card.parent.identifier}>` }));
+    if (card.children.total > 0) parts.push(t(locale, 'card.children', card.children));
+    return parts.length > 0 ? parts.join('  ·  ') : undefined;
+}
+
+// compact: only assignee / build / state / priority (link unfurls)
+function buildIssueCardFields(card: IssueCardData, locale: Locale, options: { compact?: boolean } = {}) {
+    const field = (kind: RelayEventKind, value: string | number) => ({ type: "mrkdwn", text: `*${relayKindLabel(locale, kind)}:*\n${value}` });
+    const fields = [
+        field('assignee', card.assigneeName || t(locale, 'common.unassigned')),
+        field('cycle', card.buildVersion || t(locale, 'common.none')),
+        field('state', card.stateName || t(locale, 'common.unknown'))
+    ];
+
+    if (card.priority) fields.push(field('priority', priorityLabel(locale, card.priority)));
+    if (options.compact) return fields;
+
+    if (card.dueDate) fields.push(field('dueDate', card.dueDate));
+    if (card.labels.length > 0) fields.push(field('labels', card.labels.join(', ')));
+    if (card.projectName) fields.push(field('project', card.projectName));
+    if (card.estimate !== undefined) fields.push(field('estimate', card.estimate));
+
+    return fields;
+}
+
+const isClosedState = (stateType?: string) => stateType === 'completed' || stateType === 'canceled';
+
+function buildIssueCardBlocks(card: IssueCardData, userOptions: any[], stateOptions: any[], locale: Locale): any[] {
+    const relations = formatIssueRelations(card, locale);
+
+    const blocks: any[] = [
+        {
+            type: "section",
+            text: {
+                type: "mrkdwn",
+                text: `<${card.url}|*${card.title}*>`
+            }
+        },
+        {
+            type: "context",
+            elements: [
                 {
-                    type: "divider"
+                    type: "mrkdwn",
+                    text: `Issue: \`${card.identifier}\``
+                }
+            ]
+        },
+        {
+            type: "section",
+            fields: buildIssueCardFields(card, locale)
+        },
+        ...(relations ? [{ type: "context", elements: [{ type: "mrkdwn", text: relations }] }] : []),
+        {
+            type: "section",
+            text: {
+                type: "mrkdwn",
+                text: t(locale, 'card.moreDetails')
+            },
+            accessory: {
+                type: "button",
+                text: {
+                    type: "plain_text",
+                    text: t(locale, 'card.openInLinear'),
+                    emoji: true
                 },
+                url: card.url,
+                action_id: "view_issue",
+                style: "primary"
+            }
+        },
+        {
+            type: "divider"
+        },
+        {
+            type: "header",
+            text: {
+                type: "plain_text",
+                text: t(locale, 'card.whoResolves'),
+                emoji: true
+            }
+        },
+        {
+            type: "actions",
+            elements: [
                 {
-                    type: "header",
+                    type: "button",
                     text: {
                         type: "plain_text",
-                        text: "누가 해결할 이슈인가요?",
+                        text: t(locale, 'card.assignToMe'),
                         emoji: true
-                    }
-                },
-                {
-                    type: "actions",
-                    elements: [
-                        {
-                            type: "button",
-                            text: {
-                                type: "plain_text",
-                                text: "나에게 할당",
-                                emoji: true
-                            },
-                            action_id: "assign_to_me_btn",
-                            value: issue.id
-                        },
-                        {
-                            type: "static_select",
-                            placeholder: {
-                                type: "plain_text",
-                                text: "할당할 팀원 선택...",
-                                emoji: true
-                            },
-                            options: userOptions,
-                            action_id: "assign_to_user"
-                        }
-                    ]
+                    },
+                    action_id: "assign_to_me_btn",
+                    value: card.id
                 },
                 {
-                    type: "header",
-                    text: {
+                    type: "static_select",
+                    placeholder: {
                         type: "plain_text",
-                        text: "이슈가 완료되었나요?",
+                        text: t(locale, 'card.pickAssignee'),
                         emoji: true
-                    }
-                },
-                {
-                    type: "actions",
-                    elements: [
-                        {
-                            type: "button",
-                            text: {
-                                type: "plain_text",
-                                text: "처리완료",
-                                emoji: true
-                            },
-                            action_id: "mark_done",
-                            value: issue.id
-                        }
-                    ]
+                    },
+                    options: userOptions,
+                    action_id: "assign_to_user"
                 }
             ]
+        }
+    ];
+
+    const closed = isClosedState(card.stateType);
+    const stateElements: any[] = [];
+
+    if (stateOptions.length > 0) {
+        const stateSelect: any = {
+            type: "static_select",
+            placeholder: {
+                type: "plain_text",
+                text: t(locale, 'card.pickState'),
+                emoji: true
+            },
+            options: stateOptions,
+            action_id: "change_state"
+        };
+        const current = stateOptions.find(o => o.value === card.stateId);
+        if (current) stateSelect.initial_option = current;
+        stateElements.push(stateSelect);
+    }
+
+    // Closed issues offer "다시 열기" instead of "처리완료"
+    stateElements.push(closed
+        ? {
+            type: "button",
+            text: {
+                type: "plain_text",
+                text: t(locale, 'card.reopen'),
+                emoji: true
+            },
+            action_id: "reopen_issue",
+            value: card.id
+        }
+        : {
+            type: "button",
+            text: {
+                type: "plain_text",
+                text: t(locale, 'card.markDone'),
+                emoji: true
+            },
+            action_id: "mark_done",
+            value: card.id
+        });
+
+    blocks.push(
+        {
+            type: "header",
+            text: {
+                type: "plain_text",
+                text: t(locale, closed ? 'card.reopenPrompt' : 'card.donePrompt'),
+                emoji: true
+            }
+        },
+        {
+            type: "actions",
+            block_id: `card_state:${card.id}`,
+            elements: stateElements
+        }
+    );
+
+    if (closed) {
+        blocks.push({
+            type: "context",
+            elements: [{ type: "mrkdwn", text: t(locale, 'card.closedState', { state: card.stateName || t(locale, 'common.unknown') }) }]
+        });
+    }
+    return blocks;
+}
+
+async function renderIssueCard(issue: Issue, locale: Locale) {
+    const card = await loadIssueCardData(issue);
+    const stateOptions = issue.teamId ? (await loadStateOptions([issue.teamId])).get(issue.teamId) || [] : [];
+    return {
+        text: `${card.title} (${card.identifier})`,
+        blocks: buildIssueCardBlocks(card, await buildAssigneeOptions(card.id), stateOptions, locale)
+    };
+}
+
+// Posts the standard issue card (in the channel, or as a reply when threadTs is given) and registers the mapping
+async function postIssueCard(params: { client: any; channelId: string; threadTs?: string; issue: Issue; createdBy?: string }) {
+    const { client, channelId, threadTs, issue, createdBy } = params;
+
+    const message = await client.chat.postMessage({
+        channel: channelId,
+        thread_ts: threadTs,
+        ...(await renderIssueCard(issue, channelLocale(channelId)))
+    });
+
+    if (!message.ts) throw new Error("Failed to get root message TS.");
+
+    // Save Mapping
+    ThreadMappingStore.set({
+        issueIdentifier: issue.identifier,
+        issueId: issue.id,
+        channelId,
+        threadTs: threadTs || message.ts,
+        cardTs: message.ts,
+        createdBy
+    });
+
+    return message.ts as string;
+}
+
+type CardLocation = { channelId: string; cardTs: string };
+
+// Card the clicked button belongs to (fallback for mappings that predate cardTs)
+const cardFromAction = (body: any): CardLocation | undefined =>
+    body.channel?.id && body.message?.ts ? { channelId: body.channel.id, cardTs: body.message.ts } : undefined;
+
+// Re-renders the mapped root card from the current Linear state
+async function refreshIssueCard(issueId: string, fallback?: CardLocation) {
+    const issue = await linearClient.issue(issueId);
+    const mapping = ThreadMappingStore.getByIssueId(issue.id) || ThreadMappingStore.get(issue.identifier);
+    const target = mapping?.cardTs ? { channelId: mapping.channelId, cardTs: mapping.cardTs } : fallback;
+
+    if (!target) {
+        console.log(`[Card] No card mapped for ${issue.identifier}`);
+        return;
+    }
+
+    try {
+        await app.client.chat.update({
+            channel: target.channelId,
+            ts: target.cardTs,
+            ...(await renderIssueCard(issue, channelLocale(target.channelId)))
         });
+        console.log(`[Card] Re-rendered card for ${issue.identifier}`);
+    } catch (error) {
+        // e.g. a legacy mapping whose root message was not posted by the bot
+        console.error(`[Card] Failed to re-render card for ${issue.identifier}`, error);
+    }
+}
+
+function describeSlackError(error: unknown, locale: Locale) {
+    let errorMessage = (error as Error).message;
+
+    if (errorMessage.includes("channel_not_found")) {
+        errorMessage = t(locale, 'common.botNotInChannel');
+    }
+
+    return errorMessage;
+}
+
+const formatSlackError = (locale: Locale, error: unknown) => t(locale, 'common.error', { error: describeSlackError(error, locale) });
+
+// Slack Command Handler
+app.command(slashCommand('/이슈!'), async ({ command, ack, respond, client }) => {
+    console.log(`[Debug] Command received: ${command.command} with text: ${command.text}`);
+    await ack();
+    const locale = await userLocale(client, command.user_id);
+
+    // No title: open the details modal instead
+    const { teamKey, title } = await parseTeamOverride(command.text.trim());
+    if (!title) {
+        try {
+            await openIssueDetailsModal({
+                client,
+                triggerId: command.trigger_id,
+                channelId: command.channel_id,
+                userId: command.user_id,
+                locale
+            });
+        } catch (error) {
+            console.error(error);
+            await respond({
+                text: formatSlackError(locale, error),
+                response_type: 'ephemeral'
+            });
+        }
+        return;
+    }
+
+    try {
+        // 1-2. Slack email -> Linear user
+        const { linearUser, error: userError } = await matchLinearUserForSlackUser(client, command.user_id, locale);
+        if (!linearUser) {
+            await respond({ text: userError!, response_type: 'ephemeral' });
+            return;
+        }
+
+        // 3. Get Team (channel routing / override) and Cycle
+        const { team, error: teamError } = await resolveTeamForChannel(command.channel_id, teamKey, locale);
+        if (!team) {
+            await respond({ text: teamError!, response_type: 'ephemeral' });
+            return;
+        }
+        const teamId = team.id;
+        console.log(`[Debug] Using Team: ${team.key} (${teamId})`);
+
+        const currentCycle = await getCurrentCycle(teamId);
+        console.log(`[Debug] Current Cycle: ${currentCycle ? currentCycle.number : 'None'}`);
+
+        // 4. Create Issue
+        const issuePayload: any = {
+            teamId: teamId,
+            title: title,
+            assigneeId: linearUser.id,
+            stateId: undefined,
+        };
+
+        if (currentCycle) {
+            issuePayload.cycleId = currentCycle.id;
+        }
+
+        const issueCreate = await linearClient.createIssue(issuePayload);
+        const issue = await issueCreate.issue;
+
+        if (!issue) {
+            throw new Error("Failed to fetch created issue details.");
+        }
+
+        // 5. Post Root Message (+ save mapping)
+        const rootTs = await postIssueCard({ client, channelId: command.channel_id, issue, createdBy: command.user_id });
+
+        // 6. Post Threaded Actions Message
+        const threadMessage = await client.chat.postMessage({
+            channel: command.channel_id,
+            thread_ts: rootTs,
+            text: t(channelLocale(command.channel_id), 'create.toolsTitle'),
+            blocks: [
+                {
+                    type: "section",
+                    text: {
+                        type: "mrkdwn",
+                        text: t(channelLocale(command.channel_id), 'create.toolsMoved')
+                    }
+                }
+            ]
+        });
+
+        console.log(`[Debug] Post Thread Message Success: ${threadMessage.ts}`);
+
+    } catch (error) {
+        console.error(error);
+        await respond({
+            text: formatSlackError(locale, error),
+            response_type: 'ephemeral'
+        });
+    }
+});
+
+// -------------------------------------------------------------
+// Message Shortcut: "Linear 이슈 만들기" (callback_id: create_issue_from_message)
+// - Opens a modal prefilled from the message (title = first line, description = text + permalink)
+// - On submit: same user matching / cycle lookup as /이슈!, card is posted into the message's thread
+// -------------------------------------------------------------
+const ISSUE_TITLE_MAX_LENGTH = 250;
+const ISSUE_DESCRIPTION_MAX_LENGTH = 3000; // Slack plain_text_input limit
+
+// Title = first non-empty line, description = message text + permalink footer
+async function draftIssueFromMessage(client: any, channelId: string, message: any) {
+    const text: string = message.text || '';
+    const permalink = await client.chat.getPermalink({ channel: channelId, message_ts: message.ts });
+
+    const firstLine = text.split('\n').map(l => l.trim()).find(Boolean) || '';
+    const footer = permalink.permalink ? `\n\n---\nSlack: ${permalink.permalink}` : '';
+    return {
+        title: firstLine.slice(0, ISSUE_TITLE_MAX_LENGTH),
+        description: text.slice(0, ISSUE_DESCRIPTION_MAX_LENGTH - footer.length) + footer
+    };
+}
+
+app.shortcut('create_issue_from_message', async ({ shortcut, ack, client }) => {
+    await ack();
+    if (shortcut.type !== 'message_action') return;
+    const locale = await userLocale(client, shortcut.user.id);
+
+    try {
+        const message: any = shortcut.message;
+        const channelId = shortcut.channel.id;
+
+        // The thread already has an issue: point to it instead of opening the modal
+        const existing = ThreadMappingStore.getByThread(channelId, message.thread_ts || message.ts);
+        if (existing) {
+            await client.chat.postEphemeral({
+                channel: channelId,
+                user: shortcut.user.id,
+                text: t(locale, 'link.threadAlreadyLinkedInfo', { identifier: existing.issueIdentifier })
+            });
+            return;
+        }
+
+        const { title, description } = await draftIssueFromMessage(client, channelId, message);
+
+        await client.views.open({
+            trigger_id: shortcut.trigger_id,
+            view: {
+                type: 'modal',
+                callback_id: 'create_issue_from_message_modal',
+                private_metadata: JSON.stringify({
+                    channelId,
+                    threadTs: message.thread_ts || message.ts,
+                    locale
+                }),
+                title: { type: 'plain_text', text: t(locale, 'create.modalTitle') },
+                submit: { type: 'plain_text', text: t(locale, 'common.create') },
+                close: { type: 'plain_text', text: t(locale, 'common.cancel') },
+                blocks: [
+                    {
+                        type: 'input',
+                        block_id: 'title',
+                        label: { type: 'plain_text', text: t(locale, 'common.title') },
+                        element: {
+                            type: 'plain_text_input',
+                            action_id: 'value',
+                            max_length: ISSUE_TITLE_MAX_LENGTH,
+                            initial_value: title
+                        }
+                    },
+                    {
+                        type: 'input',
+                        block_id: 'description',
+                        optional: true,
+                        label: { type: 'plain_text', text: t(locale, 'common.description') },
+                        element: {
+                            type: 'plain_text_input',
+                            action_id: 'value',
+                            multiline: true,
+                            max_length: ISSUE_DESCRIPTION_MAX_LENGTH,
+                            initial_value: description
+                        }
+                    }
+                ]
+            }
+        });
+    } catch (error) {
+        console.error(error);
+        await client.chat.postEphemeral({
+            channel: shortcut.channel.id,
+            user: shortcut.user.id,
+            text: formatSlackError(locale, error)
+        });
+    }
+});
+
+// Creates an issue from a Slack message (channel team, current cycle, assigned to the creator)
+// and posts the card into that message's thread. Shared by the shortcut and the 🎫 reaction.
+async function createIssueInThread(params: {
+    client: any;
+    channelId: string;
+    threadTs: string;
+    userId: string;
+    title: string;
+    description?: string;
+    // Locale of the returned error (shown to userId)
+    locale: Locale;
+}): Promise<{ issue: Issue; error?: undefined } | { issue?: undefined; error: string }> {
+    const { client, channelId, threadTs, userId, title, description, locale } = params;
+
+    // One issue per thread: the thread may have been linked while the modal was open
+    const existing = ThreadMappingStore.getByThread(channelId, threadTs);
+    if (existing) return { error: t(locale, 'link.threadAlreadyLinkedInfo', { identifier: existing.issueIdentifier }) };
+
+    const { linearUser, error: userError } = await matchLinearUserForSlackUser(client, userId, locale);
+    if (!linearUser) return { error: userError! };
+
+    const { team, error: teamError } = await resolveTeamForChannel(channelId, undefined, locale);
+    if (!team) return { error: teamError! };
+
+    const currentCycle = await getCurrentCycle(team.id);
+
+    const issueCreate = await linearClient.createIssue({
+        teamId: team.id,
+        title,
+        description,
+        assigneeId: linearUser.id,
+        cycleId: currentCycle?.id
+    });
+    const issue = await issueCreate.issue;
+
+    if (!issue) {
+        throw new Error("Failed to fetch created issue details.");
+    }
+
+    await postIssueCard({ client, channelId, threadTs, issue, createdBy: userId });
+    return { issue };
+}
+
+app.view('create_issue_from_message_modal', async ({ ack, view, body, client }) => {
+    const values = view.state.values;
+    const title = (values.title?.value?.value || '').trim();
+    const description = values.description?.value?.value || undefined;
+    const metadata = JSON.parse(view.private_metadata);
+    const locale = modalLocale(metadata);
+
+    if (!title) {
+        await ack({ response_action: 'errors', errors: { title: t(locale, 'common.titleRequired') } });
+        return;
+    }
+    await ack();
+
+    const { channelId, threadTs } = metadata;
+    const userId = body.user.id;
+    const notify = (text: string) => client.chat.postEphemeral({ channel: channelId, user: userId, text });
+
+    try {
+        const { issue, error: createError } = await createIssueInThread({ client, channelId, threadTs, userId, title, description, locale });
+        if (!issue) {
+            await notify(createError!);
+            return;
+        }
+
+        console.log(`[Debug] Created ${issue.identifier} from message shortcut in ${channelId}/${threadTs}`);
+    } catch (error) {
+        console.error(error);
+        await notify(formatSlackError(locale, error));
+    }
+});
+
+// -------------------------------------------------------------
+// Message Shortcut: "하위 이슈 만들기" (callback_id: create_sub_issue)
+// - On a reply in an issue thread: creates a sub-issue of the thread's issue
+//   (parentId, parent's team and cycle), title = first line of the reply
+// - The parent card's "하위 이슈 n/m 완료" line is refreshed here and by the webhook
+// -------------------------------------------------------------
+app.shortcut('create_sub_issue', async ({ shortcut, ack, client }) => {
+    await ack();
+    if (shortcut.type !== 'message_action') return;
+
+    const message: any = shortcut.message;
+    const channelId = shortcut.channel.id;
+    const userId = shortcut.user.id;
+    const locale = await userLocale(client, userId);
+    const notify = (text: string) => client.chat.postEphemeral({ channel: channelId, user: userId, thread_ts: message.thread_ts, text });
+
+    try {
+        const mapping = message.thread_ts ? ThreadMappingStore.getByThread(channelId, message.thread_ts) : undefined;
+        if (!mapping || message.ts === mapping.threadTs || message.ts === mapping.cardTs) {
+            await notify(t(locale, 'sub.notInThread'));
+            return;
+        }
+
+        const { title, description } = await draftIssueFromMessage(client, channelId, message);
+        if (!title) {
+            await notify(t(locale, 'sub.noText'));
+            return;
+        }
+
+        const parent = await linearClient.issue(mapping.issueId || mapping.issueIdentifier);
+        if (!parent.teamId) throw new Error("Team not found for issue.");
+
+        const issueCreate = await linearClient.createIssue({
+            teamId: parent.teamId,
+            parentId: parent.id,
+            cycleId: parent.cycleId,
+            title,
+            description
+        });
+        const child = await issueCreate.issue;
+        if (!child) throw new Error("Failed to fetch created issue details.");
+
+        await refreshIssueCard(parent.id);
+        await client.chat.postMessage({
+            channel: channelId,
+            thread_ts: mapping.threadTs,
+            text: t(channelLocale(channelId), 'sub.created', { user: `<@${userId}>`, issue: `<${child.url}|${child.identifier}>`, title })
+        });
+        console.log(`[Debug] Created sub-issue ${child.identifier} of ${parent.identifier}`);
+    } catch (error) {
+        console.error(error);
+        await notify(formatSlackError(locale, error));
+    }
+});
+
+// -------------------------------------------------------------
+// Modal: 상세 이슈 생성 (/이슈! without arguments)
+// - description, priority, labels, due date, project, estimate, cycle override, assignee
+// - Options are loaded from the team's Linear data; a loading view is opened first
+//   because trigger_id expires after 3s.
+// -------------------------------------------------------------
+const NO_VALUE = 'none';
+
+// Linear estimate scales (extended scales append the trailing values)
+const ESTIMATE_SCALES: Record<string, { values: number[]; extended: number[] }> = {
+    exponential: { values: [1, 2, 4, 8, 16], extended: [32, 64] },
+    fibonacci: { values: [1, 2, 3, 5, 8], extended: [13, 21] },
+    linear: { values: [1, 2, 3, 4, 5], extended: [6, 7] },
+    tShirt: { values: [1, 2, 3, 5, 8], extended: [13, 21] }
+};
+const TSHIRT_SIZES: Record<number, string> = { 0: '-', 1: 'XS', 2: 'S', 3: 'M', 5: 'L', 8: 'XL', 13: 'XXL', 21: 'XXXL' };
+
+const plainOption = (text: string, value: string) => ({
+    text: { type: 'plain_text' as const, text: text.slice(0, 75) },
+    value
+});
+
+function estimateOptions(team: { issueEstimationType: string; issueEstimationAllowZero: boolean; issueEstimationExtended: boolean }) {
+    const scale = ESTIMATE_SCALES[team.issueEstimationType];
+    if (!scale) return []; // notUsed
+
+    const values = [
+        ...(team.issueEstimationAllowZero ? [0] : []),
+        ...scale.values,
+        ...(team.issueEstimationExtended ? scale.extended : [])
+    ];
+    return values.map(v => plainOption(
+        team.issueEstimationType === 'tShirt' ? `${TSHIRT_SIZES[v]} (${v})` : String(v),
+        String(v)
+    ));
+}
+
+async function loadIssueFormOptions(teamId: string) {
+    const team = await linearClient.team(teamId);
+    const [labels, projects, cycles, users] = await Promise.all([
+        linearClient.issueLabels({
+            first: 100,
+            filter: { or: [{ team: { id: { eq: teamId } } }, { team: { null: true } }] }
+        }),
+        team.projects({ first: 99 }),
+        team.cycles({ first: 20, filter: { endsAt: { gt: new Date().toISOString() } } }),
+        linearClient.users()
+    ]);
+
+    return {
+        estimates: estimateOptions(team),
+        labels: labels.nodes.map(l => plainOption(l.name, l.id)),
+        projects: projects.nodes.map(p => plainOption(p.name, p.id)),
+        cycles: cycles.nodes
+            .sort((a, b) => a.number - b.number)
+            .map(c => plainOption(formatBuildVersion(c), c.id)),
+        users: users.nodes.filter(u => u.active).slice(0, 99).map(u => plainOption(u.name, u.id))
+    };
+}
+
+// Without options: the loading view (or `notice`, e.g. an error), which has no submit button
+function buildIssueDetailsModal(params: {
+    // teamId is only known once the channel's team is resolved
+    metadata: { channelId: string; teamId?: string; locale: Locale };
+    options?: Awaited<ReturnType<typeof loadIssueFormOptions>>;
+    initial?: { assigneeId?: string; cycleId?: string };
+    notice?: string;
+    locale: Locale;
+}) {
+    const { metadata, options, initial, notice, locale } = params;
+
+    const base = {
+        type: 'modal' as const,
+        callback_id: 'issue_details_modal',
+        private_metadata: JSON.stringify(metadata),
+        title: { type: 'plain_text' as const, text: t(locale, 'create.modalTitle') },
+        close: { type: 'plain_text' as const, text: t(locale, 'common.cancel') }
+    };
+
+    if (!options) {
+        return {
+            ...base,
+            blocks: [{ type: 'section', text: { type: 'mrkdwn', text: notice || t(locale, 'create.loading') } }]
+        };
+    }
+
+    const noneOption = plainOption(t(locale, 'common.none'), NO_VALUE);
+    const selectInput = (blockId: string, label: string, choices: any[], initialValue?: string) => ({
+        type: 'input',
+        block_id: blockId,
+        optional: true,
+        label: { type: 'plain_text', text: label },
+        element: {
+            type: 'static_select',
+            action_id: 'value',
+            placeholder: { type: 'plain_text', text: t(locale, 'common.select') },
+            options: [noneOption, ...choices],
+            ...(initialValue ? { initial_option: choices.find(o => o.value === initialValue) } : {})
+        }
+    });
+
+    const blocks: any[] = [
+        {
+            type: 'input',
+            block_id: 'title',
+            label: { type: 'plain_text', text: t(locale, 'common.title') },
+            element: { type: 'plain_text_input', action_id: 'value', max_length: ISSUE_TITLE_MAX_LENGTH }
+        },
+        {
+            type: 'input',
+            block_id: 'description',
+            optional: true,
+            label: { type: 'plain_text', text: t(locale, 'common.description') },
+            element: { type: 'plain_text_input', action_id: 'value', multiline: true }
+        },
+        selectInput('assignee', relayKindLabel(locale, 'assignee'), options.users,
+            options.users.some(o => o.value === initial?.assigneeId) ? initial?.assigneeId : undefined),
+        selectInput('priority', relayKindLabel(locale, 'priority'), [1, 2, 3, 4].map(p => plainOption(priorityLabel(locale, p), String(p)))),
+        {
+            type: 'input',
+            block_id: 'due',
+            optional: true,
+            label: { type: 'plain_text', text: relayKindLabel(locale, 'dueDate') },
+            element: { type: 'datepicker', action_id: 'value' }
+        },
+        selectInput('cycle', t(locale, 'create.cycleLabel'), options.cycles,
+            options.cycles.some(o => o.value === initial?.cycleId) ? initial?.cycleId : undefined)
+    ];
+
+    if (options.labels.length > 0) {
+        blocks.push({
+            type: 'input',
+            block_id: 'labels',
+            optional: true,
+            label: { type: 'plain_text', text: relayKindLabel(locale, 'labels') },
+            element: {
+                type: 'multi_static_select',
+                action_id: 'value',
+                placeholder: { type: 'plain_text', text: t(locale, 'common.select') },
+                options: options.labels
+            }
+        });
+    }
+    if (options.projects.length > 0) blocks.push(selectInput('project', relayKindLabel(locale, 'project'), options.projects));
+    if (options.estimates.length > 0) blocks.push(selectInput('estimate', relayKindLabel(locale, 'estimate'), options.estimates));
+
+    return {
+        ...base,
+        submit: { type: 'plain_text' as const, text: t(locale, 'common.create') },
+        blocks
+    };
+}
+
+async function openIssueDetailsModal(params: { client: any; triggerId: string; channelId: string; userId: string; locale: Locale }) {
+    const { client, triggerId, channelId, userId, locale } = params;
+
+    // trigger_id expires after 3 seconds: open the loading view before talking to Linear
+    const opened = await client.views.open({ trigger_id: triggerId, view: buildIssueDetailsModal({ metadata: { channelId, locale }, locale }) });
+    const update = (view: any) => client.views.update({ view_id: opened.view.id, hash: opened.view.hash, view });
+
+    try {
+        const { team, error: teamError } = await resolveTeamForChannel(channelId, undefined, locale);
+        if (!team) {
+            await update(buildIssueDetailsModal({ metadata: { channelId, locale }, notice: teamError, locale }));
+            return;
+        }
+        const teamId = team.id;
+
+        const [options, match, currentCycle] = await Promise.all([
+            loadIssueFormOptions(teamId),
+            matchLinearUserForSlackUser(client, userId, locale),
+            getCurrentCycle(teamId)
+        ]);
+
+        await update(buildIssueDetailsModal({
+            metadata: { channelId, teamId, locale },
+            options,
+            initial: { assigneeId: match.linearUser?.id, cycleId: currentCycle?.id },
+            locale
+        }));
+    } catch (error) {
+        // The modal is already open, so the error goes there instead of the channel
+        console.error(error);
+        await update(buildIssueDetailsModal({ metadata: { channelId, locale }, notice: formatSlackError(locale, error), locale }));
+    }
+}
+
+app.view('issue_details_modal', async ({ ack, view, body, client }) => {
+    const values = view.state.values;
+    const selected = (blockId: string) => {
+        const value = values[blockId]?.value?.selected_option?.value;
+        return value && value !== NO_VALUE ? value : undefined;
+    };
+
+    const title = (values.title?.value?.value || '').trim();
+    const metadata = JSON.parse(view.private_metadata);
+    const locale = modalLocale(metadata);
+    if (!title) {
+        await ack({ response_action: 'errors', errors: { title: t(locale, 'common.titleRequired') } });
+        return;
+    }
+    await ack();
+
+    const { channelId, teamId } = metadata;
+    const userId = body.user.id;
+    const notify = (text: string) => client.chat.postEphemeral({ channel: channelId, user: userId, text });
+
+    try {
+        const { linearUser, error: userError } = await matchLinearUserForSlackUser(client, userId, locale);
+        if (!linearUser) {
+            await notify(userError!);
+            return;
+        }
+
+        const priority = selected('priority') ? Number(selected('priority')) : undefined;
+        const estimate = selected('estimate') ? Number(selected('estimate')) : undefined;
+        const dueDate = values.due?.value?.selected_date || undefined;
+        const selectedLabels = values.labels?.value?.selected_options || [];
+
+        const issueCreate = await linearClient.createIssue({
+            teamId,
+            title,
+            description: values.description?.value?.value || undefined,
+            assigneeId: selected('assignee'),
+            priority,
+            estimate,
+            dueDate,
+            labelIds: selectedLabels.length > 0 ? selectedLabels.map(o => o.value) : undefined,
+            projectId: selected('project'),
+            cycleId: selected('cycle')
+        });
+        const issue = await issueCreate.issue;
+
+        if (!issue) {
+            throw new Error("Failed to fetch created issue details.");
+        }
+
+        const rootTs = await postIssueCard({ client, channelId, issue, createdBy: userId });
+
+        console.log(`[Debug] Created ${issue.identifier} from details modal (card ${rootTs})`);
+    } catch (error) {
+        console.error(error);
+        await notify(formatSlackError(locale, error));
+    }
+});
+
+// -------------------------------------------------------------
+// Issue list helpers (state/tag grouping + optional assignee override)
+// -------------------------------------------------------------
+const tagPrefixRegex = /^\s*(\[[^\]]+\]\s*)+/;
+const extractTitleTags = (title: string): string[] => {
+    const prefix = title.match(tagPrefixRegex)?.[0];
+    if (!prefix) return [];
+    const tags: string[] = [];
+    const re = /\[([^\]]+)\]/g;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(prefix)) !== null) {
+        const t = (m[1] || '').trim();
+        if (t) tags.push(t);
+    }
+    return tags;
+};
+
+async function resolveSlackUserIdFromToken(client: any, token: string): Promise<string | null> {
+    const raw = (token || '').trim();
+    // allow tokens like "@jun," or "<@U123>,"
+    const cleaned = raw.replace(/[,:;]+$/g, '');
+
+    // Preferred: Slack mention token like <@U123ABC> or <@U123ABC|name>
+    const mention = cleaned.match(/^<@([A-Z0-9]+)(?:\|[^>]+)?>$/);
+    if (mention) return mention[1];
+
+    // Best-effort: plain @name
+    const at = cleaned.match(/^@([\w.\-]+)$/);
+    if (!at) return null;
+
+    const handle = (at[1] || '').trim();
+    const h = handle.toLowerCase();
+
+    const norm = (s?: string) => (s || '').trim().toLowerCase();
+
+    // NOTE: requires users:read. If not available, we'll just fail gracefully.
+    try {
+        const match = (await listSlackMembers(client)).find((m: any) => {
+            const name = norm(m.name);
+            const dn = norm(m.profile?.display_name);
+            const dnn = norm(m.profile?.display_name_normalized);
+            const rn = norm(m.profile?.real_name);
+            const rnn = norm(m.profile?.real_name_normalized);
+            return name === h || dn === h || dnn === h || rn === h || rnn === h;
+        });
+        if (match?.id) return match.id;
+    } catch (e) {
+        console.warn("Failed to list users (missing users:read scope?)", e);
+    }
+
+    return null;
+}
+
+// Issue fields needed for the list, fetched inline so there is no per-issue assignee/state round-trip
+const LIST_ISSUES_QUERY = `
+    query ListIssues($filter: IssueFilter, $after: String) {
+        issues(filter: $filter, first: 100, after: $after) {
+            nodes {
+                id
+                identifier
+                title
+                url
+                priority
+                dueDate
+                updatedAt
+                assignee { name }
+                state { id name type }
+                project { name }
+                team { id key }
+            }
+            pageInfo { hasNextPage endCursor }
+        }
+    }
+`;
+
+interface ListedIssue {
+    id: string;
+    identifier: string;
+    title: string;
+    url: string;
+    priority: number;
+    dueDate: string | null;
+    updatedAt: string;
+    assignee: { name: string } | null;
+    state: { id: string; name: string; type: string } | null;
+    project: { name: string } | null;
+    team: { id: string; key: string };
+}
+
+interface ListIssuesResponse {
+    issues: { nodes: ListedIssue[]; pageInfo: { hasNextPage: boolean; endCursor?: string | null } };
+}
+
+// Fetches every page of issues matching a Linear IssueFilter
+async function fetchIssuesForList(filter: Record<string, any>): Promise<ListedIssue[]> {
+    const issues: ListedIssue[] = [];
+    let after: string | undefined;
+    for (let page = 0; page < 50; page++) { // safety cap (5000 issues)
+        const res: ListIssuesResponse = await linearClient.client.request(LIST_ISSUES_QUERY, { filter, after });
+        issues.push(...res.issues.nodes);
+        if (!res.issues.pageInfo.hasNextPage || !res.issues.pageInfo.endCursor) break;
+        after = res.issues.pageInfo.endCursor;
+    }
+    return issues;
+}
+
+// -------------------------------------------------------------
+// HELPER: /이슈목록 filter grammar
+// - 우선순위:긴급,높음 / 상태:"In Progress" / 빌드:현재|12|이름 / 프로젝트:이름
+// - 기한:2026-10-31 (해당 날짜까지) / 기한:초과 / 미지정 / 팀:APP
+// - 정렬:우선순위|기한|업데이트 / 그룹:상태|태그|우선순위|프로젝트
+// -------------------------------------------------------------
+type IssueListMode = 'state' | 'tag' | 'priority' | 'project';
+type IssueListSort = 'priority' | 'dueDate' | 'updated';
+
+interface IssueListQuery {
+    mode: IssueListMode;
+    requestedTag?: string;
+    assigneeTokens: string[];
+    priorities?: number[];
+    states?: string[];
+    cycle?: 'current' | number | string;
+    project?: string;
+    dueBefore?: string;
+    overdue?: boolean;
+    unassigned?: boolean;
+    teamKey?: string;
+    sort?: IssueListSort;
+    // Human-readable filter descriptions for the list header
+    descriptions: string[];
+}
+
+// Keys are the Korean keywords; English ones are mapped onto them by normalizeKeyword
+const LIST_MODE_KEYWORDS: Record<string, IssueListMode> = { '상태': 'state', '태그': 'tag', '우선순위': 'priority', '프로젝트': 'project' };
+const LIST_SORT_KEYWORDS: Record<string, IssueListSort> = { '우선순위': 'priority', '기한': 'dueDate', '업데이트': 'updated' };
+
+const listModeLabel = (locale: Locale, mode: IssueListMode) => mode === 'tag' ? t(locale, 'list.tag') : relayKindLabel(locale, mode);
+
+// Priority names in any locale, without the emoji ('긴급', 'urgent' -> 1), or the raw number
+function parsePriority(value: string): number | undefined {
+    if (/^[0-4]$/.test(value)) return Number(value);
+    const lower = value.toLowerCase();
+    const index = PRIORITY_KEYS.findIndex((_key, p) => LOCALES.some(l => {
+        const label = priorityLabel(l, p).toLowerCase();
+        return label.replace(/^\S+\s/, '') === lower || label === lower;
+    }));
+    return index >= 0 ? index : undefined;
+}
+
+// Whitespace split that keeps "quoted values" (Slack may send smart quotes) together
+function tokenizeListCommand(raw: string): string[] {
+    const normalized = raw.replace(/[“”]/g, '"');
+    return (normalized.match(/(?:[^\s"]+|"[^"]*")+/g) || []).map(t => t.replace(/"/g, ''));
+}
+
+// Keywords and filter keys may be Korean or English (태그/tag, 우선순위:/priority:, 기한:초과/due:overdue)
+function parseIssueListTokens(tokens: string[], locale: Locale, modeOverride?: IssueListMode): { query: IssueListQuery; error?: string } {
+    const query: IssueListQuery = { mode: modeOverride || 'state', assigneeTokens: [], descriptions: [] };
+    const describe = (kind: RelayEventKind, value: string) => query.descriptions.push(`${relayKindLabel(locale, kind)}: ${value}`);
+
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        const keyword = normalizeKeyword(token);
+
+        if (keyword === '태그') {
+            query.mode = 'tag';
+            const next = tokens[i + 1];
+            if (next && !next.startsWith('@') && !next.startsWith('<@') && !next.includes(':') && normalizeKeyword(next) !== '미지정') {
+                query.requestedTag = next;
+                i++;
+            }
+            continue;
+        }
+
+        // assignee token candidates: @jun or <@U123> possibly comma-separated
+        if (token.startsWith('@') || token.startsWith('<@')) {
+            const parts = token.split(',').map((s: string) => s.trim()).filter(Boolean);
+            for (const p of parts) {
+                if (p.startsWith('@') || p.startsWith('<@')) query.assigneeTokens.push(p);
+            }
+            continue;
+        }
+
+        if (keyword === '미지정') {
+            query.unassigned = true;
+            query.descriptions.push(t(locale, 'list.unassigned'));
+            continue;
+        }
+
+        if (keyword === '기한초과') {
+            query.overdue = true;
+            query.descriptions.push(t(locale, 'list.overdue'));
+            continue;
+        }
+
+        const sep = token.indexOf(':');
+        if (sep <= 0) continue;
+        const key = token.slice(0, sep);
+        const value = token.slice(sep + 1).trim();
+        if (!value) return { query, error: t(locale, 'list.missingValue', { key }) };
+        const values = value.split(',').map(v => v.trim()).filter(Boolean);
+
+        switch (normalizeKeyword(key)) {
+            case '우선순위': {
+                const priorities = values.map(parsePriority);
+                if (priorities.some(p => p === undefined)) {
+                    return { query, error: t(locale, 'list.badPriority', { value }) };
+                }
+                query.priorities = priorities as number[];
+                describe('priority', query.priorities.map(p => priorityLabel(locale, p)).join(', '));
+                break;
+            }
+            case '상태':
+                query.states = values;
+                describe('state', values.join(', '));
+                break;
+            case '빌드':
+            case '사이클':
+                query.cycle = normalizeKeyword(value) === '현재' ? 'current' : (/^\d+$/.test(value) ? Number(value) : value);
+                describe('cycle', value);
+                break;
+            case '프로젝트':
+                query.project = value;
+                describe('project', value);
+                break;
+            case '기한':
+                if (['초과', '기한초과'].includes(normalizeKeyword(value))) {
+                    query.overdue = true;
+                    query.descriptions.push(t(locale, 'list.overdue'));
+                } else if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+                    query.dueBefore = value;
+                    query.descriptions.push(t(locale, 'list.dueBefore', { date: value }));
+                } else {
+                    return { query, error: t(locale, 'list.badDue') };
+                }
+                break;
+            case '팀':
+                query.teamKey = value.toUpperCase();
+                query.descriptions.push(t(locale, 'list.teamFilter', { team: query.teamKey }));
+                break;
+            case '정렬': {
+                const sort = LIST_SORT_KEYWORDS[normalizeKeyword(value)];
+                if (!sort) return { query, error: t(locale, 'list.badSort') };
+                query.sort = sort;
+                break;
+            }
+            case '그룹': {
+                const mode = LIST_MODE_KEYWORDS[normalizeKeyword(value)];
+                if (!mode) return { query, error: t(locale, 'list.badGroup') };
+                query.mode = mode;
+                break;
+            }
+            default:
+                return { query, error: t(locale, 'list.unknownFilter', { key }) };
+        }
+    }
+
+    return { query };
+}
+
+const todayDate = () => new Date().toISOString().slice(0, 10);
+
+// Maps the parsed query onto a Linear IssueFilter.
+// Without an explicit 상태: filter, only active (not completed/canceled) issues are listed.
+function buildIssueListFilter(query: IssueListQuery, scope: { assigneeIds?: string[]; teamId?: string }): Record<string, any> {
+    const filter: Record<string, any> = {
+        state: query.states
+            ? { or: query.states.map(name => ({ name: { eqIgnoreCase: name } })) }
+            : { type: { nin: ['completed', 'canceled'] } }
+    };
+
+    if (query.unassigned) filter.assignee = { null: true };
+    else if (scope.assigneeIds) filter.assignee = { id: { in: scope.assigneeIds } };
+
+    if (scope.teamId) filter.team = { id: { eq: scope.teamId } };
+    if (query.priorities) filter.priority = { in: query.priorities };
+    if (query.project) filter.project = { name: { containsIgnoreCase: query.project } };
+
+    if (query.cycle === 'current') filter.cycle = { isActive: { eq: true } };
+    else if (typeof query.cycle === 'number') filter.cycle = { number: { eq: query.cycle } };
+    else if (query.cycle) filter.cycle = { name: { eqIgnoreCase: query.cycle } };
+
+    if (query.overdue) filter.dueDate = { lt: todayDate() };
+    else if (query.dueBefore) filter.dueDate = { lte: query.dueBefore };
+
+    return filter;
+}
+
+// Priority 0 (none) sorts last
+const priorityRank = (p: number) => (p === 0 ? 5 : p);
+
+function sortIssues(issues: ListedIssue[], sort: IssueListSort | undefined): ListedIssue[] {
+    if (!sort) return issues;
+    return [...issues].sort((a, b) => {
+        if (sort === 'priority') return priorityRank(a.priority) - priorityRank(b.priority);
+        if (sort === 'dueDate') return (a.dueDate || '9999-12-31').localeCompare(b.dueDate || '9999-12-31');
+        return b.updatedAt.localeCompare(a.updatedAt);
+    });
+}
+
+type IssueRow = { issue: ListedIssue; assigneeName: string; tags: string[]; stateName: string };
+
+function buildIssueRows(issues: ListedIssue[], locale: Locale): IssueRow[] {
+    return issues.map(issue => ({
+        issue,
+        assigneeName: issue.assignee?.name || t(locale, 'common.unassigned'),
+        tags: extractTitleTags(issue.title || ''),
+        stateName: issue.state?.name || t(locale, 'common.unknown')
+    }));
+}
+
+function groupRowsByState(rows: IssueRow[]) {
+    const grouped: Record<string, IssueRow[]> = {};
+    for (const r of rows) {
+        const key = r.stateName;
+        if (!grouped[key]) grouped[key] = [];
+        grouped[key].push(r);
+    }
+    return grouped;
+}
+
+function groupRowsByTags(rows: IssueRow[], requestedTag?: string) {
+    const grouped: Record<string, IssueRow[]> = {};
+
+    for (const r of rows) {
+        const tags = r.tags;
+        if (tags.length === 0) {
+            const key = 'NoTag';
+            if (!requestedTag || requestedTag === key) {
+                if (!grouped[key]) grouped[key] = [];
+                grouped[key].push(r);
+            }
+            continue;
+        }
+
+        // duplicate inclusion for all tags
+        for (const t of tags) {
+            if (requestedTag && requestedTag !== t) continue;
+            if (!grouped[t]) grouped[t] = [];
+            grouped[t].push(r);
+        }
+    }
+
+    return grouped;
+}
+
+function groupRowsByPriority(rows: IssueRow[], locale: Locale) {
+    const grouped: Record<string, IssueRow[]> = {};
+    for (const r of rows) {
+        const key = r.issue.priority ? priorityLabel(locale, r.issue.priority) : t(locale, 'list.noPriority');
+        if (!grouped[key]) grouped[key] = [];
+        grouped[key].push(r);
+    }
+    return grouped;
+}
+
+function groupRowsByProject(rows: IssueRow[], locale: Locale) {
+    const grouped: Record<string, IssueRow[]> = {};
+    for (const r of rows) {
+        const key = r.issue.project?.name || t(locale, 'list.noProject');
+        if (!grouped[key]) grouped[key] = [];
+        grouped[key].push(r);
+    }
+    return grouped;
+}
+
+// Priority groups keep urgent -> low order; other groups are ordered by size
+function sortPriorityGroupKeys(grouped: Record<string, IssueRow[]>) {
+    return Object.keys(grouped).sort((a, b) => priorityRank(grouped[a][0].issue.priority) - priorityRank(grouped[b][0].issue.priority));
+}
+
+function sortGroupKeys(grouped: Record<string, any[]>) {
+    return Object.keys(grouped).sort((a, b) => {
+        const diff = (grouped[b]?.length || 0) - (grouped[a]?.length || 0);
+        if (diff !== 0) return diff;
+        return a.localeCompare(b);
+    });
+}
+
+const formatIssueRowLine = (r: IssueRow) =>
+    `• <${r.issue.url}|${r.issue.title}>  —  *${r.assigneeName}*${r.issue.dueDate ? `  📅 ${r.issue.dueDate}` : ''}`;
+
+// Slack limits: 50 blocks per message, 3000 characters per section text
+const SLACK_MAX_BLOCKS = 50;
+const SLACK_MAX_SECTION_TEXT = 3000;
+
+// Joins lines into section texts that each fit in one section block
+function chunkLines(lines: string[], maxLength = SLACK_MAX_SECTION_TEXT): string[] {
+    const chunks: string[] = [];
+    let current = '';
+    for (const raw of lines) {
+        const line = raw.length > maxLength ? `${raw.slice(0, maxLength - 1)}…` : raw;
+        if (current && current.length + 1 + line.length > maxLength) {
+            chunks.push(current);
+            current = '';
+        }
+        current = current ? `${current}\n${line}` : line;
+    }
+    if (current) chunks.push(current);
+    return chunks;
+}
+
+// Packs groups of blocks into messages, keeping a group together unless it alone exceeds the limit
+function packBlocksIntoMessages(groups: any[][], maxBlocks = SLACK_MAX_BLOCKS): any[][] {
+    const messages: any[][] = [];
+    let current: any[] = [];
+    for (const group of groups) {
+        if (current.length > 0 && current.length + group.length > maxBlocks) {
+            messages.push(current);
+            current = [];
+        }
+        for (const block of group) {
+            if (current.length >= maxBlocks) {
+                messages.push(current);
+                current = [];
+            }
+            current.push(block);
+        }
+    }
+    if (current.length > 0) messages.push(current);
+    return messages;
+}
+
+async function postGroupedListToThread(params: {
+    client: any;
+    channelId: string;
+    requesterId: string;
+    assigneeSlackIds: string[];
+    // Overrides the assignee mentions in the header (e.g. '팀 APP', '담당자 미지정')
+    scopeText?: string;
+    mode: IssueListMode;
+    requestedTag?: string;
+    filterDescriptions?: string[];
+    grouped: Record<string, IssueRow[]>;
+    totalIssues: number;
+    locale: Locale;
+}) {
+    const { client, channelId, requesterId, assigneeSlackIds, scopeText, mode, requestedTag, filterDescriptions, grouped, totalIssues, locale } = params;
+
+    const groupKeys = mode === 'priority' ? sortPriorityGroupKeys(grouped) : sortGroupKeys(grouped);
+
+    const assigneesText = scopeText || ((assigneeSlackIds && assigneeSlackIds.length > 0)
+        ? assigneeSlackIds.map(id => `<@${id}>`).join(', ')
+        : `<@${requesterId}>`);
+
+    const modeLabel = listModeLabel(locale, mode);
+    const filters = [...(requestedTag ? [requestedTag] : []), ...(filterDescriptions || [])];
+    const header = `${mode === 'tag' ? '🔖' : '🔍'} ${t(locale, 'list.header', { requester: `<@${requesterId}>`, who: assigneesText, mode: modeLabel })}`
+        + (filters.length > 0 ? ` ${t(locale, 'list.filters', { filters: filters.map(f => `\`${f}\``).join(', ') })}` : '');
+
+    const rootMessage = await client.chat.postMessage({
+        channel: channelId,
+        text: t(locale, 'list.title', { mode: modeLabel }),
+        blocks: [
+            {
+                type: 'section',
+                text: { type: 'mrkdwn', text: header }
+            },
+            {
+                type: 'context',
+                elements: [
+                    {
+                        type: 'mrkdwn',
+                        text: t(locale, 'list.total', { total: totalIssues, groups: groupKeys.length })
+                    }
+                ]
+            }
+        ]
+    });
+
+    if (!rootMessage.ts) throw new Error('Failed to post root message.');
+
+    const groupBlocks = groupKeys.map(key => {
+        const rows = grouped[key] || [];
+        const lines = rows.map(formatIssueRowLine);
+        return [
+            {
+                type: 'section',
+                text: { type: 'mrkdwn', text: mode === 'tag' ? `*📂 [${key}] (${rows.length})*` : `*📂 ${key} (${rows.length})*` }
+            },
+            ...chunkLines(lines).map(text => ({ type: 'section', text: { type: 'mrkdwn', text } })),
+            { type: 'divider' }
+        ];
+    });
+
+    // Large lists are split across several thread messages
+    const messages = packBlocksIntoMessages(groupBlocks);
+    for (const [i, blocks] of messages.entries()) {
+        const label = t(locale, 'list.threadTitle', { mode: modeLabel });
+        await client.chat.postMessage({
+            channel: channelId,
+            thread_ts: rootMessage.ts,
+            text: messages.length > 1 ? `${label} (${i + 1}/${messages.length})` : label,
+            blocks
+        });
+    }
+}
+
+// -------------------------------------------------------------
+// Slack Command Handler: /이슈목록
+// - 기본: 상태별 그룹
+// - /이슈목록 태그 [TagName]: 태그별 그룹(+필터)
+// - /이슈목록 @jun,@sean : 복수 assignee 지원(권장: 멘션 선택)
+// - 조합: /이슈목록 @jun,@sean 태그 [TagName]
+// - 필터: 우선순위:긴급 상태:"In Progress" 빌드:현재 프로젝트:이름 기한:초과 미지정 팀:APP
+// - 정렬/그룹: 정렬:우선순위|기한|업데이트 그룹:우선순위|프로젝트
+// -------------------------------------------------------------
+app.command(slashCommand('/이슈목록'), async ({ command, ack, respond, client }) => {
+    return handleIssueListCommand({ command, ack, respond, client });
+});
+
+// (removed duplicate /태그목록 wrapper)
+
+// The list is a reply to the requester, so it follows their locale
+async function handleIssueListCommand({ command, ack, respond, client, modeOverride }: any) {
+    await ack();
+    const locale = await userLocale(client, command.user_id);
+
+    try {
+        const tokens = tokenizeListCommand((command.text || '').trim());
+        const { query, error: parseError } = parseIssueListTokens(tokens, locale, modeOverride);
+        if (parseError) {
+            await respond({ text: `❌ ${parseError}`, response_type: 'ephemeral' });
+            return;
+        }
+
+        // team scope: 팀:APP, or the channel's team when listing unassigned issues
+        let team: TeamRef | undefined;
+        if (query.teamKey) {
+            team = await findTeam(query.teamKey);
+            if (!team) {
+                await respond({ text: t(locale, 'common.teamNotFound', { team: query.teamKey }), response_type: 'ephemeral' });
+                return;
+            }
+        } else if (query.unassigned) {
+            team = (await resolveTeamForChannel(command.channel_id, undefined, locale)).team;
+        }
+
+        // resolve slack user ids
+        const assigneeSlackIds: string[] = [];
+        if (query.assigneeTokens.length > 0) {
+            for (const tok of query.assigneeTokens) {
+                const id = await resolveSlackUserIdFromToken(client, tok);
+                if (id && !assigneeSlackIds.includes(id)) assigneeSlackIds.push(id);
+            }
+
+            // If user explicitly specified assignee(s) but none could be resolved,
+            // do NOT silently fall back to requester.
+            if (assigneeSlackIds.length === 0) {
+                await respond({
+                    text: t(locale, 'list.assigneesNotFound', { users: query.assigneeTokens.join(', ') }),
+                    response_type: 'ephemeral'
+                });
+                return;
+            }
+        }
+
+        // 미지정 / 팀:APP alone list the whole scope instead of the requester's issues
+        const listsWholeScope = query.unassigned || (!!team && assigneeSlackIds.length === 0);
+        if (!listsWholeScope && assigneeSlackIds.length === 0) {
+            assigneeSlackIds.push(command.user_id);
+        }
+
+        // match each assignee to a Linear user, then fetch all their issues at once
+        const linearUserIds: string[] = [];
+        const failedAssignees: string[] = [];
+
+        if (!query.unassigned) {
+            for (const slackId of assigneeSlackIds) {
+                const { linearUser } = await linearUserForSlackUser(client, slackId);
+                if (!linearUser) {
+                    failedAssignees.push(`<@${slackId}>`);
+                    continue;
+                }
+
+                linearUserIds.push(linearUser.id);
+            }
+        }
+
+        const teamScope = team ? t(locale, 'common.teamScope', { team: team.key }) : undefined;
+        const scopeText = query.unassigned
+            ? [teamScope, t(locale, 'list.unassigned')].filter(Boolean).join(' ')
+            : (teamScope && assigneeSlackIds.length === 0 ? teamScope : undefined);
+
+        const canFetch = listsWholeScope || linearUserIds.length > 0;
+        const filter = buildIssueListFilter(query, {
+            assigneeIds: listsWholeScope && assigneeSlackIds.length === 0 ? undefined : linearUserIds,
+            teamId: team?.id
+        });
+        const allIssues = canFetch ? sortIssues(await fetchIssuesForList(filter), query.sort) : [];
+
+        if (allIssues.length === 0) {
+            const who = scopeText || assigneeSlackIds.map(id => `<@${id}>`).join(', ');
+            await respond({
+                text: query.descriptions.length > 0
+                    ? t(locale, 'list.emptyFiltered', { who, filters: query.descriptions.join(', ') })
+                    : t(locale, 'list.empty', { who }),
+                response_type: 'in_channel'
+            });
+            return;
+        }
+
+        if (failedAssignees.length > 0) {
+            // best-effort warning (ephemeral)
+            await respond({
+                text: t(locale, 'list.someAssigneesFailed', { users: failedAssignees.join(', ') }),
+                response_type: 'ephemeral'
+            });
+        }
+
+        const rows = buildIssueRows(allIssues, locale);
+
+        let grouped: Record<string, IssueRow[]>;
+        if (query.mode === 'tag') {
+            grouped = groupRowsByTags(rows, query.requestedTag);
+            if (Object.keys(grouped).length === 0) {
+                await respond({ text: t(locale, 'list.emptyTag', { tag: query.requestedTag ?? '' }), response_type: 'in_channel' });
+                return;
+            }
+        } else if (query.mode === 'priority') {
+            grouped = groupRowsByPriority(rows, locale);
+        } else if (query.mode === 'project') {
+            grouped = groupRowsByProject(rows, locale);
+        } else {
+            grouped = groupRowsByState(rows);
+        }
+
+        await postGroupedListToThread({
+            client,
+            channelId: command.channel_id,
+            requesterId: command.user_id,
+            assigneeSlackIds,
+            scopeText,
+            mode: query.mode,
+            requestedTag: query.requestedTag,
+            filterDescriptions: query.descriptions,
+            grouped,
+            totalIssues: allIssues.length,
+            locale
+        });
+
+    } catch (error) {
+        console.error(error);
+        let msg = (error as Error).message || String(error);
+
+        // Common Slack error when bot isn't in the channel where the slash command was used
+        if (msg.includes('channel_not_found')) {
+            msg = t(locale, 'list.botNotInChannel');
+        }
+
+        await respond({ text: t(locale, 'common.error', { error: msg }), response_type: 'ephemeral' });
+    }
+}
+
+// /태그목록은 위 helper를 사용
+app.command(slashCommand('/태그목록'), async ({ command, ack, respond, client }) => {
+    // Ensure modeOverride=tag, and allow optional @user + tag filter
+    return handleIssueListCommand({ command, ack, respond, client, modeOverride: 'tag' });
+});
+
+const relayKindNames = (locale: Locale) => RELAY_EVENT_KINDS.map(k => relayKindLabel(locale, k)).join(', ');
+
+function formatRelaySettings(mutedEvents: string[] | undefined, locale: Locale) {
+    const muted = (mutedEvents || []).map(k => parseRelayEventKind(k)).filter(Boolean) as RelayEventKind[];
+    if (muted.length === 0) return t(locale, 'settings.relayAll');
+    return t(locale, 'settings.relayMuted', { kinds: muted.map(k => relayKindLabel(locale, k)).join(', ') });
+}
+
+// /이슈설정 알림 <끄기|켜기|전체> [종류...]
+async function handleRelaySettingsCommand(channelId: string, userId: string, args: string[], respond: any, locale: Locale) {
+    const [modeArg, ...kindArgs] = args;
+    const mode = normalizeKeyword(modeArg || '');
+    const current = ThreadMappingStore.getChannelSettings(channelId).mutedEvents || [];
+
+    if (mode === '전체') {
+        ThreadMappingStore.updateChannelSettings(channelId, { mutedEvents: undefined });
+        await respond({ text: t(locale, 'settings.relayAllOn', { user: `<@${userId}>` }), response_type: 'in_channel' });
+        return;
+    }
+
+    if (mode !== '끄기' && mode !== '켜기') {
+        await respond({ text: t(locale, 'settings.relayUsage'), response_type: 'ephemeral' });
+        return;
+    }
+
+    const names = kindArgs.join(' ').split(/[\s,]+/).filter(Boolean);
+    const kinds = names.map(parseRelayEventKind);
+    const unknown = names.filter((_, i) => !kinds[i]);
+    if (names.length === 0 || unknown.length > 0) {
+        await respond({
+            text: t(locale, 'settings.relayBadKinds', { unknown: unknown.length ? ` (${unknown.join(', ')})` : '', kinds: relayKindNames(locale) }),
+            response_type: 'ephemeral'
+        });
+        return;
+    }
+
+    const selected = kinds as RelayEventKind[];
+    const next = mode === '끄기'
+        ? [...new Set([...current, ...selected])]
+        : current.filter(k => !selected.includes(k as RelayEventKind));
+
+    const settings = ThreadMappingStore.updateChannelSettings(channelId, { mutedEvents: next.length > 0 ? next : undefined });
+    await respond({
+        text: t(locale, 'settings.relayChanged', { user: `<@${userId}>`, settings: formatRelaySettings(settings.mutedEvents, locale) }),
+        response_type: 'in_channel'
+    });
+}
+
+function formatReminderSettings(settings: ReminderSettings, locale: Locale) {
+    if (!settings.enabled) return t(locale, 'settings.off');
+    const due = settings.dueSoonDays > 0 ? t(locale, 'settings.reminderDueSoon', { days: settings.dueSoonDays }) : t(locale, 'settings.reminderOverdue');
+    const stale = settings.staleDays > 0 ? t(locale, 'settings.reminderStale', { days: settings.staleDays }) : t(locale, 'settings.reminderStaleOff');
+    return `${due} / ${stale}`;
+}
+
+// /이슈설정 리마인더 <기한|방치> <일> / <끄기|켜기>
+async function handleReminderSettingsCommand(channelId: string, userId: string, args: string[], respond: any, locale: Locale) {
+    const mode = normalizeKeyword(args[0] || '');
+    const value = args[1];
+    const current = reminderSettingsFor(channelId);
+    let next: ReminderSettings;
+
+    if (mode === '끄기' || mode === '켜기') {
+        next = { ...current, enabled: mode === '켜기' };
+    } else if ((mode === '기한' || mode === '방치') && /^\d+$/.test(value || '')) {
+        const days = Number(value);
+        next = mode === '기한' ? { ...current, dueSoonDays: days } : { ...current, staleDays: days };
+    } else {
+        await respond({ text: t(locale, 'settings.reminderUsage'), response_type: 'ephemeral' });
+        return;
+    }
+
+    ThreadMappingStore.updateChannelSettings(channelId, { reminders: next });
+    await respond({
+        text: t(locale, 'settings.reminderChanged', { user: `<@${userId}>`, settings: formatReminderSettings(next, locale) }),
+        response_type: 'in_channel'
+    });
+}
+
+// -------------------------------------------------------------
+// Slack Command Handler: /이슈설정 (channel settings)
+// - /이슈설정            : 현재 채널 설정 보기
+// - /이슈설정 팀 APP     : 이 채널의 이슈를 APP 팀으로 등록 (관리자)
+// - /이슈설정 팀 해제    : 채널 설정 제거 -> LINEAR_TEAM_ID 사용 (관리자)
+// - /이슈설정 알림 끄기 우선순위 라벨 : 해당 변경 알림을 스레드에 전달하지 않음 (관리자)
+// - /이슈설정 알림 켜기 라벨 / 알림 전체 : 알림 다시 켜기 (관리자)
+// - /이슈설정 리마인더 기한 2 / 방치 5 / 끄기 / 켜기 : 스레드 리마인더 기준 (관리자)
+// - /이슈설정 리액션 :eyes: 담당 / :eyes: 해제 : 이모지 리액션 워크플로 (관리자)
+// - /이슈설정 언어 en / 언어 해제 : 채널에 게시되는 메시지의 언어 (관리자)
+// -------------------------------------------------------------
+function formatChannelLocale(channelId: string, locale: Locale) {
+    const configured = parseLocale(ThreadMappingStore.getChannelSettings(channelId).locale);
+    return configured
+        ? LOCALE_NAMES[configured]
+        : t(locale, 'settings.localeDefault', { locale: LOCALE_NAMES[DEFAULT_LOCALE] });
+}
+
+// /이슈설정 언어 <ko|en|해제>
+async function handleChannelLocaleCommand(channelId: string, userId: string, args: string[], respond: any, locale: Locale) {
+    const value = normalizeKeyword(args[0] || '');
+    const next = parseLocale(value);
+    if (value !== '해제' && !next) {
+        await respond({ text: t(locale, 'settings.localeUsage'), response_type: 'ephemeral' });
+        return;
+    }
+
+    ThreadMappingStore.updateChannelSettings(channelId, { locale: next });
+    await respond({
+        text: t(locale, 'settings.localeChanged', { user: `<@${userId}>`, locale: formatChannelLocale(channelId, locale) }),
+        response_type: 'in_channel'
+    });
+}
+
+app.command(slashCommand('/이슈설정'), async ({ command, ack, respond, client }) => {
+    await ack();
+    const locale = await userLocale(client, command.user_id);
+
+    try {
+        const [subArg, ...args] = (command.text || '').trim().split(/\s+/).filter(Boolean);
+        const sub = subArg && normalizeKeyword(subArg);
+        const channelId = command.channel_id;
+
+        if (!sub) {
+            const settings = ThreadMappingStore.getChannelSettings(channelId);
+            const { team } = await resolveTeamForChannel(channelId, undefined, locale);
+            const teamText = settings.teamKey
+                ? `\`${settings.teamKey}\`${team ? ` (${team.name})` : ''}`
+                : t(locale, 'settings.teamDefault', { team: team ? `: \`${team.key}\`` : '' });
+
+            await respond({
+                text: t(locale, 'settings.overview', {
+                    channel: `<#${channelId}>`,
+                    team: teamText,
+                    relay: formatRelaySettings(settings.mutedEvents, locale),
+                    reminder: formatReminderSettings(reminderSettingsFor(channelId), locale),
+                    reaction: formatReactionSettings(channelId, locale),
+                    locale: formatChannelLocale(channelId, locale),
+                    kinds: relayKindNames(locale),
+                    workflows: REACTION_WORKFLOWS.map(w => reactionWorkflowLabel(locale, w)).join('|')
+                }),
+                response_type: 'ephemeral'
+            });
+            return;
+        }
+
+        if (sub !== '팀' && sub !== '알림' && sub !== '리마인더' && sub !== '리액션' && sub !== '언어') {
+            await respond({ text: t(locale, 'settings.unknown'), response_type: 'ephemeral' });
+            return;
+        }
+
+        if (!(await isSlackAdmin(client, command.user_id))) {
+            await respond({ text: t(locale, 'common.adminOnly'), response_type: 'ephemeral' });
+            return;
+        }
+
+        if (sub === '알림') {
+            await handleRelaySettingsCommand(channelId, command.user_id, args, respond, locale);
+            return;
+        }
+
+        if (sub === '리마인더') {
+            await handleReminderSettingsCommand(channelId, command.user_id, args, respond, locale);
+            return;
+        }
+
+        if (sub === '리액션') {
+            await handleReactionSettingsCommand(channelId, command.user_id, args, respond, locale);
+            return;
+        }
+
+        if (sub === '언어') {
+            await handleChannelLocaleCommand(channelId, command.user_id, args, respond, locale);
+            return;
+        }
+
+        const value = args[0];
+        if (!value) {
+            await respond({ text: t(locale, 'settings.teamMissing'), response_type: 'ephemeral' });
+            return;
+        }
+
+        if (normalizeKeyword(value) === '해제') {
+            ThreadMappingStore.updateChannelSettings(channelId, { teamKey: undefined });
+            await respond({ text: t(locale, 'settings.teamCleared', { user: `<@${command.user_id}>` }), response_type: 'in_channel' });
+            return;
+        }
+
+        const team = await findTeam(value);
+        if (!team) {
+            await respond({ text: t(locale, 'common.teamNotFound', { team: value }), response_type: 'ephemeral' });
+            return;
+        }
+
+        ThreadMappingStore.updateChannelSettings(channelId, { teamKey: team.key });
+        await respond({
+            text: t(locale, 'settings.teamChanged', { user: `<@${command.user_id}>`, name: team.name, key: team.key }),
+            response_type: 'in_channel'
+        });
+    } catch (error) {
+        console.error(error);
+        await respond({ text: formatSlackError(locale, error), response_type: 'ephemeral' });
+    }
+});
+
+// -------------------------------------------------------------
+// Slack Command Handler: /언어 (personal language)
+// - /언어          : 현재 언어 보기
+// - /언어 en / ko  : 나에게만 보이는 응답, 모달, 홈 탭의 언어
+// - /언어 자동     : Slack 프로필 언어를 따름
+// -------------------------------------------------------------
+app.command(slashCommand('/언어'), async ({ command, ack, respond, client }) => {
+    await ack();
+    const userId = command.user_id;
+
+    try {
+        const value = (command.text || '').trim();
+        if (!value) {
+            const locale = await userLocale(client, userId);
+            const explicit = parseLocale(ThreadMappingStore.getUserSettings(userId).locale);
+            await respond({
+                text: t(locale, 'lang.current', { locale: explicit ? LOCALE_NAMES[explicit] : t(locale, 'lang.auto', { locale: LOCALE_NAMES[locale] }) }),
+                response_type: 'ephemeral'
+            });
+            return;
+        }
+
+        const next = parseLocale(value);
+        if (normalizeKeyword(value) !== '자동' && !next) {
+            await respond({ text: t(await userLocale(client, userId), 'lang.usage'), response_type: 'ephemeral' });
+            return;
+        }
+
+        ThreadMappingStore.updateUserSettings(userId, { locale: next });
+        const locale = await userLocale(client, userId);
+        await respond({
+            text: t(locale, 'lang.changed', { locale: next ? LOCALE_NAMES[next] : t(locale, 'lang.auto', { locale: LOCALE_NAMES[locale] }) }),
+            response_type: 'ephemeral'
+        });
+    } catch (error) {
+        console.error(error);
+        await respond({ text: formatSlackError(await userLocale(client, userId), error), response_type: 'ephemeral' });
+    }
+});
+
+// -------------------------------------------------------------
+// Slack Command Handler: /리니어연결 (Slack <-> Linear account link)
+// - /리니어연결                        : 내 연결 상태 보기
+// - /리니어연결 <Linear 이메일|이름>   : 내 Slack 계정을 해당 Linear 계정과 연결
+// - /리니어연결 해제                   : 연결 해제 (다시 이메일로 매칭)
+// - /리니어연결 <@사용자> <이메일|이름|해제> : 다른 사용자의 연결 변경 (관리자)
+// Linking to an account that belongs to someone else (by link or by email) needs an admin.
+// -------------------------------------------------------------
+async function findLinearUser(query: string): Promise<User | null> {
+    // Slack sends emails as <mailto:a@b.com|a@b.com>
+    const cleaned = query.trim().replace(/^<mailto:([^|>]+)(?:\|[^>]*)?>$/, '$1').replace(/^@/, '');
+    if (!cleaned) return null;
+    if (cleaned.includes('@')) return getLinearUserByEmail(cleaned);
+
+    const byDisplayName = await getLinearUserByDisplayName(cleaned);
+    if (byDisplayName) return byDisplayName;
+    const byName = await linearClient.users({ filter: { name: { eqIgnoreCase: cleaned } } });
+    return byName.nodes[0] || null;
+}
+
+async function describeUserLink(client: any, slackUserId: string, locale: Locale) {
+    const { linearUser, email, linked } = await linearUserForSlackUser(client, slackUserId);
+    if (!linearUser) {
+        return `<@${slackUserId}> → ${t(locale, 'link.none')}${email ? ` ${t(locale, 'link.noEmailMatch', { email })}` : ''}`;
+    }
+    return `<@${slackUserId}> → *${linearUser.name}* (${linearUser.email}) — ${t(locale, linked ? 'link.explicit' : 'link.byEmail')}`;
+}
+
+app.command(slashCommand('/리니어연결'), async ({ command, ack, respond, client }) => {
+    await ack();
+    const locale = await userLocale(client, command.user_id);
+
+    try {
+        const args = (command.text || '').trim().split(/\s+/).filter(Boolean);
+        const requester = command.user_id;
+
+        if (args.length === 0) {
+            await respond({
+                text: `🔗 ${await describeUserLink(client, requester, locale)}\n\n${t(locale, 'link.usage')}`,
+                response_type: 'ephemeral'
+            });
+            return;
+        }
+
+        // Two arguments: admin override for another Slack user
+        let target = requester;
+        let value = args[0];
+        if (args.length >= 2) {
+            const targetId = await resolveSlackUserIdFromToken(client, args[0]);
+            if (!targetId) {
+                await respond({ text: t(locale, 'link.slackUserNotFound', { user: args[0] }), response_type: 'ephemeral' });
+                return;
+            }
+            target = targetId;
+            value = args.slice(1).join(' ');
+        }
+
+        const isAdmin = await isSlackAdmin(client, requester);
+        if (target !== requester && !isAdmin) {
+            await respond({ text: t(locale, 'link.adminOnly'), response_type: 'ephemeral' });
+            return;
+        }
+
+        if (normalizeKeyword(value) === '해제') {
+            ThreadMappingStore.deleteUserLink(target);
+            await respond({ text: t(locale, 'link.unlinked', { link: await describeUserLink(client, target, locale) }), response_type: 'ephemeral' });
+            return;
+        }
+
+        const linearUser = await findLinearUser(value);
+        if (!linearUser || !linearUser.active) {
+            await respond({ text: t(locale, 'link.linearUserNotFound', { user: value }), response_type: 'ephemeral' });
+            return;
+        }
+
+        // Self-service may only claim an account nobody else owns
+        if (!isAdmin) {
+            const owner = ThreadMappingStore.getUserLinkByLinearUser(linearUser.id)?.slackUserId
+                || await slackUserIdByEmail(linearUser.email);
+            if (owner && owner !== target) {
+                await respond({ text: t(locale, 'link.ownedByOther', { name: linearUser.name, owner: `<@${owner}>` }), response_type: 'ephemeral' });
+                return;
+            }
+        }
+
+        // Links are read from the store on every lookup, so no cache needs clearing
+        ThreadMappingStore.setUserLink({ slackUserId: target, linearUserId: linearUser.id, linkedBy: requester });
+
+        console.log(`[Identity] ${requester} linked Slack ${target} to Linear ${linearUser.id}`);
+        await respond({ text: t(locale, 'link.linked', { link: await describeUserLink(client, target, locale) }), response_type: 'ephemeral' });
+    } catch (error) {
+        console.error(error);
+        await respond({ text: formatSlackError(locale, error), response_type: 'ephemeral' });
+    }
+});
+
+// -------------------------------------------------------------
+// FEATURE: Linear link unfurls (link_shared)
+// - Slack app config: App unfurl domain `linear.app`, event `link_shared`, scopes links:read / links:write
+// - Compact version of the root card with "나에게 할당" and a state picker.
+// - Slack only unfurls URLs, so bare identifiers (APP-123) in messages are expanded
+//   by the bot itself as a threaded reply with the same card.
+// -------------------------------------------------------------
+// Unfurls are seen by the whole channel, so they follow the channel locale
+async function renderIssueUnfurl(issue: Issue, locale: Locale) {
+    const card = await loadIssueCardData(issue);
+    const stateOptions = (await loadStateOptions([issue.teamId!])).get(issue.teamId!) || [];
+
+    const stateSelect: any = {
+        type: 'static_select',
+        action_id: 'unfurl_change_state',
+        placeholder: { type: 'plain_text', text: t(locale, 'card.changeState') },
+        options: stateOptions
+    };
+    const current = stateOptions.find(o => o.text.text === card.stateName);
+    if (current) stateSelect.initial_option = current;
+
+    return [
+        { type: 'section', text: { type: 'mrkdwn', text: `<${card.url}|*${card.title}*>  \`${card.identifier}\`` } },
+        { type: 'section', fields: buildIssueCardFields(card, locale, { compact: true }) },
+        {
+            // The issue ID rides on the block so both actions can find it
+            type: 'actions',
+            block_id: `unfurl_issue:${card.id}`,
+            elements: [
+                { type: 'button', action_id: 'unfurl_assign_to_me', text: { type: 'plain_text', text: t(locale, 'card.assignToMe'), emoji: true }, value: card.id },
+                stateSelect
+            ]
+        }
+    ];
+}
+
+app.event('link_shared', async ({ event, client }) => {
+    try {
+        const unfurls: Record<string, { blocks: any[] }> = {};
+
+        for (const link of event.links) {
+            const identifier = parseIssueReference(link.url);
+            if (!identifier) continue;
+            try {
+                unfurls[link.url] = { blocks: await renderIssueUnfurl(await linearClient.issue(identifier), channelLocale(event.channel)) };
+            } catch (error) {
+                // Issue from another workspace or no access: leave the link as is
+                console.log(`[Unfurl] Skipping ${link.url}: ${(error as Error).message}`);
+            }
+        }
+
+        if (Object.keys(unfurls).length === 0) return;
+
+        await client.chat.unfurl({ channel: event.channel, ts: event.message_ts, unfurls });
+    } catch (error) {
+        console.error(error);
+    }
+});
+
+// Bare identifiers outside code and links: "1SW-123 보셨나요?" -> ['1SW-123']
+const MAX_EXPANDED_IDENTIFIERS = 3;
+
+function extractBareIdentifiers(text: string): string[] {
+    const plain = text
+        .replace(/```[\s\S]*?```/g, ' ')
+        .replace(/`[^`\n]*`/g, ' ')
+        // <url|label>, <@U123>, <#C123>: URLs are unfurled by link_shared
+        .replace(/<[^>\n]*>/g, ' ');
+    const found = [...plain.matchAll(/(?<![\w\/-])([A-Za-z0-9]+-\d+)(?![\w-])/g)].map(m => m[1].toUpperCase());
+    return [...new Set(found)].slice(0, MAX_EXPANDED_IDENTIFIERS);
+}
+
+app.message(async ({ message, client, context }) => {
+    const subtype = (message as any).subtype;
+    if (subtype || (message as any).bot_id || (message as any).user === context.botUserId) return;
+
+    const text: string = (message as any).text || '';
+    const channelId = (message as any).channel;
+    const threadTs = (message as any).thread_ts || (message as any).ts;
+
+    // The thread's own issue already has its card at the root
+    const mapped = (message as any).thread_ts ? ThreadMappingStore.getByThread(channelId, threadTs) : undefined;
+
+    for (const identifier of extractBareIdentifiers(text)) {
+        if (identifier === mapped?.issueIdentifier) continue;
+        // "UTF-8", "COVID-19": only keys of existing teams are looked up
+        if (!(await findTeam(identifier.split('-')[0]))) continue;
+
+        try {
+            const issue = await linearClient.issue(identifier);
+            await client.chat.postMessage({
+                channel: channelId,
+                thread_ts: threadTs,
+                text: `${issue.identifier} ${issue.title}`,
+                blocks: await renderIssueUnfurl(issue, channelLocale(channelId)),
+                unfurl_links: false
+            });
+        } catch (error) {
+            // Unknown number or no access: leave the text as is
+            console.log(`[Unfurl] Skipping ${identifier}: ${(error as Error).message}`);
+        }
+    }
+});
+
+// Re-renders the unfurl (or expanded identifier reply) the action came from, and the mapped root card
+async function refreshIssueUnfurl(client: any, body: any, issueId: string) {
+    await refreshIssueCard(issueId);
+
+    const container = body.container;
+    if (!container?.channel_id || !container.message_ts) return;
+
+    const issue = await linearClient.issue(issueId);
+    const blocks = await renderIssueUnfurl(issue, channelLocale(container.channel_id));
+
+    if (container.is_app_unfurl) {
+        if (!container.app_unfurl_url) return;
+        await client.chat.unfurl({
+            channel: container.channel_id,
+            ts: container.message_ts,
+            unfurls: { [container.app_unfurl_url]: { blocks } }
+        });
+        return;
+    }
+
+    await client.chat.update({
+        channel: container.channel_id,
+        ts: container.message_ts,
+        text: `${issue.identifier} ${issue.title}`,
+        blocks
+    });
+}
+
+app.action('unfurl_assign_to_me', async ({ action, ack, body, client, respond }) => {
+    await ack();
+    if (action.type !== 'button' || !action.value) return;
+
+    try {
+        const locale = await userLocale(client, body.user.id);
+        const { linearUser, error: userError } = await matchLinearUserForSlackUser(client, body.user.id, locale);
+        if (!linearUser) {
+            await respond({ text: userError!, response_type: 'ephemeral', replace_original: false });
+            return;
+        }
+
+        const undo = await updateIssueWithUndo(action.value, 'assigneeId', linearUser.id);
+        await refreshIssueUnfurl(client, body, action.value);
+        await offerUndoForAction(client, body, t(locale, 'undo.assignedToMe'), undo);
+    } catch (error) {
+        console.error(error);
+    }
+});
+
+app.action('unfurl_change_state', async ({ action, ack, body, client }) => {
+    await ack();
+    if (action.type !== 'static_select' || !action.selected_option) return;
+
+    try {
+        const issueId = action.block_id.split(':')[1];
+        const undo = await updateIssueWithUndo(issueId, 'stateId', action.selected_option.value);
+        await refreshIssueUnfurl(client, body, issueId);
+        const locale = await userLocale(client, body.user.id);
+        await offerUndoForAction(client, body, t(locale, 'undo.stateChanged', { state: action.selected_option.text.text }), undo);
+    } catch (error) {
+        console.error(error);
+    }
+});
+
+// -------------------------------------------------------------
+// HELPER: Linking an existing issue to a Slack thread
+// -------------------------------------------------------------
+// Slack message link -> { channelId, threadTs } of the thread it belongs to
+function parseSlackMessageLink(link: string): { channelId: string; threadTs: string } | undefined {
+    const cleaned = link.trim().replace(/^<|>$/g, '').split('|')[0];
+    const m = cleaned.match(/\/archives\/([A-Z0-9]+)\/p(\d{10})(\d{6})/);
+    if (!m) return undefined;
+    // Links to a reply carry the root in ?thread_ts=
+    const threadTs = cleaned.match(/[?&]thread_ts=(\d+\.\d+)/)?.[1];
+    return { channelId: m[1], threadTs: threadTs || `${m[2]}.${m[3]}` };
+}
+
+// Binds the issue to the thread (stored mapping + card posted in the thread).
+// Returns an error message when the thread already belongs to another issue.
+async function linkIssueToThread(params: { client: any; channelId: string; threadTs: string; issue: Issue; locale: Locale }): Promise<string | undefined> {
+    const { client, channelId, threadTs, issue, locale } = params;
+
+    const existing = ThreadMappingStore.getByThread(channelId, threadTs);
+    if (existing) {
+        // Linking the same issue again would only post a second card
+        const sameIssue = existing.issueId ? existing.issueId === issue.id : existing.issueIdentifier === issue.identifier;
+        return t(locale, sameIssue ? 'link.threadAlreadyLinkedInfo' : 'link.threadAlreadyLinked', { identifier: existing.issueIdentifier });
+    }
+
+    // One thread per issue: point to the existing one instead of moving the mapping
+    const linked = ThreadMappingStore.getByIssueId(issue.id) || ThreadMappingStore.get(issue.identifier);
+    if (linked) {
+        const permalink = await threadPermalink(client, linked);
+        return t(locale, 'link.issueLinkedElsewhere', {
+            identifier: issue.identifier,
+            where: permalink ? `: <${permalink}|${t(locale, 'search.goToThread')}>` : ` (<#${linked.channelId}>)`
+        });
+    }
+
+    await postIssueCard({ client, channelId, threadTs, issue });
+    console.log(`[Link] Linked ${issue.identifier} to ${channelId}/${threadTs}`);
+    return undefined;
+}
+
+// 'APP-123' / 'app-123' / https://linear.app/<workspace>/issue/APP-123/<slug> -> 'APP-123'
+function parseIssueReference(text: string): string | undefined {
+    const cleaned = text.trim().replace(/^<|>$/g, '').split('|')[0];
+    const fromUrl = cleaned.match(/linear\.app\/[^/\s]+\/issue\/([A-Za-z0-9]+-\d+)/);
+    const identifier = fromUrl?.[1] || cleaned.match(/^([A-Za-z0-9]+-\d+)$/)?.[1];
+    return identifier?.toUpperCase();
+}
+
+// -------------------------------------------------------------
+// FEATURE: Message Shortcut - "이슈 연결" (link an existing issue to this thread)
+// Callback ID: link_issue_to_thread
+// -------------------------------------------------------------
+app.shortcut('link_issue_to_thread', async ({ shortcut, ack, client }) => {
+    await ack();
+    if (shortcut.type !== 'message_action') return;
+
+    try {
+        const message: any = shortcut.message;
+        const channelId = shortcut.channel.id;
+        const threadTs = message.thread_ts || message.ts;
+        const locale = await userLocale(client, shortcut.user.id);
+
+        // Only a suggestion - the user confirms the issue in the modal
+        const suggested = (message.text || '').match(/linear\.app\/[^/\s|>]+\/issue\/[A-Za-z0-9]+-\d+|\b[A-Z0-9]+-\d+\b/)?.[0];
+        const current = ThreadMappingStore.getByThread(channelId, threadTs);
+        const notice: any[] = current ? [{
+            type: 'context',
+            elements: [{ type: 'mrkdwn', text: t(locale, 'link.threadTaken', { identifier: current.issueIdentifier }) }]
+        }] : [];
+
+        await client.views.open({
+            trigger_id: shortcut.trigger_id,
+            view: {
+                type: 'modal',
+                callback_id: 'link_issue_to_thread_modal',
+                private_metadata: JSON.stringify({ channelId, threadTs, locale }),
+                title: { type: 'plain_text', text: t(locale, 'link.modalTitle') },
+                submit: { type: 'plain_text', text: t(locale, 'common.link') },
+                close: { type: 'plain_text', text: t(locale, 'common.cancel') },
+                blocks: [
+                    ...notice,
+                    {
+                        type: 'input',
+                        block_id: 'issue',
+                        label: { type: 'plain_text', text: t(locale, 'link.issueLabel') },
+                        hint: { type: 'plain_text', text: t(locale, 'link.issueHint') },
+                        element: {
+                            type: 'plain_text_input',
+                            action_id: 'value',
+                            placeholder: { type: 'plain_text', text: 'APP-123' },
+                            ...(suggested ? { initial_value: suggested } : {})
+                        }
+                    }
+                ]
+            }
+        });
+    } catch (error) {
+        console.error(error);
+    }
+});
+
+app.view('link_issue_to_thread_modal', async ({ ack, view, body, client }) => {
+    const identifier = parseIssueReference(view.state.values.issue?.value?.value || '');
+    const metadata = JSON.parse(view.private_metadata);
+    const locale = modalLocale(metadata);
+    if (!identifier) {
+        await ack({ response_action: 'errors', errors: { issue: t(locale, 'link.issueRequired') } });
+        return;
+    }
+    await ack();
+
+    const { channelId, threadTs } = metadata;
+    const userId = body.user.id;
+    const notify = (text: string) => client.chat.postEphemeral({ channel: channelId, user: userId, text });
+
+    try {
+        let issue: Issue;
+        try {
+            issue = await linearClient.issue(identifier);
+        } catch {
+            await notify(t(locale, 'link.issueNotFound', { identifier }));
+            return;
+        }
+
+        const linkError = await linkIssueToThread({ client, channelId, threadTs, issue, locale });
+        if (linkError) await notify(linkError);
+    } catch (error) {
+        console.error(error);
+        await notify(formatSlackError(locale, error));
+    }
+});
+
+// -------------------------------------------------------------
+// FEATURE: Issue search (/이슈검색)
+// - /이슈검색 로그인 버그        : 채널 팀에서 제목/설명 검색
+// - /이슈검색 팀:APP 로그인      : 특정 팀 / 팀:전체 로 모든 팀
+// -------------------------------------------------------------
+const SEARCH_RESULT_LIMIT = 10;
+
+const SEARCH_ISSUES_QUERY = `
+    query SearchIssues($term: String!, $teamId: String, $first: Int) {
+        searchIssues(term: $term, teamId: $teamId, first: $first) {
+            nodes {
+                id
+                identifier
+                title
+                url
+                state { name }
+                assignee { name }
+            }
+        }
+    }
+`;
+
+interface SearchedIssue {
+    id: string;
+    identifier: string;
+    title: string;
+    url: string;
+    state: { name: string } | null;
+    assignee: { name: string } | null;
+}
+
+async function searchIssues(term: string, teamId?: string): Promise<SearchedIssue[]> {
+    const res: { searchIssues: { nodes: SearchedIssue[] } } = await linearClient.client.request(SEARCH_ISSUES_QUERY, {
+        term,
+        teamId,
+        first: SEARCH_RESULT_LIMIT
+    });
+    return res.searchIssues.nodes;
+}
+
+function buildSearchResultBlocks(term: string, scopeText: string, issues: SearchedIssue[], locale: Locale) {
+    const blocks: any[] = [
+        { type: 'section', text: { type: 'mrkdwn', text: t(locale, 'search.header', { term, count: issues.length, scope: scopeText }) } }
+    ];
+
+    for (const issue of issues) {
+        blocks.push(
+            { type: 'divider' },
+            {
+                type: 'section',
+                text: {
+                    type: 'mrkdwn',
+                    text: `*<${issue.url}|${issue.identifier}>* ${issue.title}\n${issue.state?.name || t(locale, 'common.unknown')} · ${issue.assignee?.name || t(locale, 'common.unassigned')}`
+                }
+            },
+            {
+                type: 'actions',
+                elements: [
+                    { type: 'button', action_id: 'search_open_issue', text: { type: 'plain_text', text: t(locale, 'search.open') }, url: issue.url },
+                    { type: 'button', action_id: 'search_post_card', text: { type: 'plain_text', text: t(locale, 'search.postCard') }, value: issue.id },
+                    { type: 'button', action_id: 'search_link_thread', text: { type: 'plain_text', text: t(locale, 'search.linkThread') }, value: issue.id }
+                ]
+            }
+        );
+    }
+
+    return blocks;
+}
+
+app.command(slashCommand('/이슈검색'), async ({ command, ack, respond, client }) => {
+    await ack();
+    const locale = await userLocale(client, command.user_id);
+
+    try {
+        const tokens = (command.text || '').trim().split(/\s+/).filter(Boolean);
+        // 팀:APP / team:APP
+        const teamToken = tokens.find(token => token.includes(':') && normalizeKeyword(token.slice(0, token.indexOf(':'))) === '팀');
+        const term = tokens.filter(token => token !== teamToken).join(' ');
+
+        if (!term) {
+            await respond({ text: t(locale, 'search.usage'), response_type: 'ephemeral' });
+            return;
+        }
+
+        // Default scope: the channel's team; 팀:전체 (or no team configured) searches every team
+        let team: TeamRef | undefined;
+        const teamValue = teamToken?.slice(teamToken.indexOf(':') + 1);
+        if (teamValue && normalizeKeyword(teamValue) !== '전체') {
+            team = await findTeam(teamValue);
+            if (!team) {
+                await respond({ text: t(locale, 'common.teamNotFound', { team: teamValue }), response_type: 'ephemeral' });
+                return;
+            }
+        } else if (!teamValue) {
+            team = (await resolveTeamForChannel(command.channel_id, undefined, locale)).team;
+        }
+
+        const issues = await searchIssues(term, team?.id);
+        const scopeText = team ? t(locale, 'common.teamScope', { team: team.key }) : t(locale, 'common.allTeams');
+
+        if (issues.length === 0) {
+            await respond({ text: t(locale, 'search.empty', { term, scope: scopeText }), response_type: 'ephemeral' });
+            return;
+        }
+
+        await respond({
+            text: t(locale, 'search.title', { term, count: issues.length }),
+            blocks: buildSearchResultBlocks(term, scopeText, issues, locale),
+            response_type: 'ephemeral'
+        });
+    } catch (error) {
+        console.error(error);
+        await respond({ text: formatSlackError(locale, error), response_type: 'ephemeral' });
+    }
+});
+
+// URL buttons still send an action; only acknowledge it
+app.action('search_open_issue', async ({ ack }) => {
+    await ack();
+});
+
+app.action('search_post_card', async ({ action, ack, body, client, respond }) => {
+    await ack();
+    if (action.type !== 'button' || !action.value) return;
+
+    const locale = await userLocale(client, body.user.id);
+    try {
+        const channelId = (body as any).channel?.id;
+        const issue = await linearClient.issue(action.value);
+
+        // One thread per issue: point to the existing one instead of posting a duplicate card
+        const existing = ThreadMappingStore.getByIssueId(issue.id) || ThreadMappingStore.get(issue.identifier);
+        if (existing) {
+            const permalink = await threadPermalink(client, existing);
+            await respond({
+                text: t(locale, 'search.threadExists', {
+                    identifier: issue.identifier,
+                    where: permalink ? `: <${permalink}|${t(locale, 'search.goToThread')}>` : ` (<#${existing.channelId}>)`
+                }),
+                response_type: 'ephemeral',
+                replace_original: false
+            });
+            return;
+        }
+
+        await postIssueCard({ client, channelId, issue });
+    } catch (error) {
+        console.error(error);
+        await respond({ text: formatSlackError(locale, error), response_type: 'ephemeral', replace_original: false });
+    }
+});
+
+// Slash commands don't know the thread they were typed in, so ask for the thread link
+app.action('search_link_thread', async ({ action, ack, body, client }) => {
+    await ack();
+    if (action.type !== 'button' || !action.value) return;
+
+    try {
+        const locale = await userLocale(client, body.user.id);
+        await client.views.open({
+            trigger_id: (body as any).trigger_id,
+            view: {
+                type: 'modal',
+                callback_id: 'link_issue_thread_modal',
+                private_metadata: JSON.stringify({ issueId: action.value, channelId: (body as any).channel?.id, locale }),
+                title: { type: 'plain_text', text: t(locale, 'search.linkThreadTitle') },
+                submit: { type: 'plain_text', text: t(locale, 'common.link') },
+                close: { type: 'plain_text', text: t(locale, 'common.cancel') },
+                blocks: [
+                    {
+                        type: 'input',
+                        block_id: 'link',
+                        label: { type: 'plain_text', text: t(locale, 'search.threadLinkLabel') },
+                        hint: { type: 'plain_text', text: t(locale, 'search.threadLinkHint') },
+                        element: { type: 'plain_text_input', action_id: 'value', placeholder: { type: 'plain_text', text: 'https://….slack.com/archives/C…/p…' } }
+                    }
+                ]
+            }
+        });
+    } catch (error) {
+        console.error(error);
+    }
+});
+
+app.view('link_issue_thread_modal', async ({ ack, view, body, client }) => {
+    const target = parseSlackMessageLink(view.state.values.link?.value?.value || '');
+    const metadata = JSON.parse(view.private_metadata);
+    const locale = modalLocale(metadata);
+    if (!target) {
+        await ack({ response_action: 'errors', errors: { link: t(locale, 'search.badThreadLink') } });
+        return;
+    }
+    await ack();
+
+    const { issueId, channelId } = metadata;
+    const userId = body.user.id;
+    const notify = (text: string) => client.chat.postEphemeral({ channel: target.channelId || channelId, user: userId, text });
+
+    try {
+        const issue = await linearClient.issue(issueId);
+        const linkError = await linkIssueToThread({ client, channelId: target.channelId, threadTs: target.threadTs, issue, locale });
+        if (linkError) await notify(linkError);
+    } catch (error) {
+        console.error(error);
+        await notify(formatSlackError(locale, error));
+    }
+});
+
+// -------------------------------------------------------------
+// Scheduler
+// One minute ticker runs every registered job. Jobs check their own (per-channel)
+// schedule and persist what they already sent, so restarts don't double-post.
+// -------------------------------------------------------------
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+const scheduledJobs: { name: string; run: (now: Date) => Promise<void> }[] = [];
+
+function registerScheduledJob(name: string, run: (now: Date) => Promise<void>) {
+    scheduledJobs.push({ name, run });
+}
+
+function startScheduler() {
+    let running = false;
+    setInterval(async () => {
+        // Skip the tick if the previous one is still posting
+        if (running) return;
+        running = true;
+        const now = new Date();
+        try {
+            for (const job of scheduledJobs) {
+                try {
+                    await job.run(now);
+                } catch (error) {
+                    console.error(`[Scheduler] Job ${job.name} failed`, error);
+                }
+            }
+        } finally {
+            running = false;
+        }
+    }, SCHEDULER_INTERVAL_MS);
+    console.log(`[Scheduler] Started with ${scheduledJobs.length} job(s)`);
+}
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Wall clock in a time zone: local date, weekday (0 = Sunday) and minutes since midnight
+function localClock(timeZone: string, now = new Date()) {
+    const parts = Object.fromEntries(new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23'
+    }).formatToParts(now).map(p => [p.type, p.value]));
+
+    return {
+        date: `${parts.year}-${parts.month}-${parts.day}`,
+        weekday: WEEKDAY_NAMES.indexOf(parts.weekday),
+        minutes: Number(parts.hour) * 60 + Number(parts.minute)
+    };
+}
+
+// '2024-03-04' + days -> '2024-03-01' (calendar arithmetic, no time zone involved)
+function shiftDate(date: string, days: number): string {
+    return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// The instant at which a local date ('YYYY-MM-DD') starts in a time zone
+function localMidnight(timeZone: string, date: string): Date {
+    const utcMidnight = Date.parse(`${date}T00:00:00Z`);
+    const offsetAt = (instant: number) => {
+        const clock = localClock(timeZone, new Date(instant));
+        return Date.parse(`${clock.date}T00:00:00Z`) + clock.minutes * 60 * 1000 - instant;
+    };
+    // The second pass corrects for a DST change between the guess and the real midnight
+    const guess = utcMidnight - offsetAt(utcMidnight);
+    return new Date(utcMidnight - offsetAt(guess));
+}
+
+function isValidTimeZone(timeZone: string) {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+// '9:30' / '09:30' -> '09:30'
+function normalizeClockTime(value: string): string | undefined {
+    const m = value.match(/^([01]?\d|2[0-3]):([0-5]\d)$/);
+    return m ? `${m[1].padStart(2, '0')}:${m[2]}` : undefined;
+}
+
+const clockTimeToMinutes = (time: string) => Number(time.slice(0, 2)) * 60 + Number(time.slice(3, 5));
+
+// -------------------------------------------------------------
+// FEATURE: Daily digest (/이슈요약)
+// Posted on weekdays at the channel's time: completed since the last weekday,
+// in progress (grouped by state) and new unassigned issues for the channel's team.
+// -------------------------------------------------------------
+const DIGEST_DEFAULT_TIME = '09:30';
+const DIGEST_DEFAULT_TIME_ZONE = process.env.DIGEST_TIMEZONE || 'Asia/Seoul';
+// If the bot was down at the scheduled time, the digest is still sent within this window
+const DIGEST_GRACE_MINUTES = 60;
+
+const isWeekday = (weekday: number) => weekday >= 1 && weekday <= 5;
+
+async function buildDigestBlocks(team: TeamRef, clock: { date: string; weekday: number }, timeZone: string, locale: Locale) {
+    // Local calendar days in the digest's time zone: yesterday, or Friday through Sunday on Mondays
+    const sinceFriday = clock.weekday === 1;
+    const since = localMidnight(timeZone, shiftDate(clock.date, sinceFriday ? -3 : -1)).toISOString();
+    const until = localMidnight(timeZone, clock.date).toISOString();
+    const teamFilter = { team: { id: { eq: team.id } } };
+
+    const [completed, inProgress, unassigned] = await Promise.all([
+        fetchIssuesForList({ ...teamFilter, completedAt: { gte: since, lt: until } }),
+        fetchIssuesForList({ ...teamFilter, state: { type: { eq: 'started' } } }),
+        fetchIssuesForList({
+            ...teamFilter,
+            assignee: { null: true },
+            // Includes issues filed this morning, before the digest went out
+            createdAt: { gte: since },
+            state: { type: { nin: ['completed', 'canceled'] } }
+        })
+    ]);
+
+    const section = (text: string) => ({ type: 'section', text: { type: 'mrkdwn', text } });
+    const rowSections = (rows: IssueRow[]) => rows.length > 0
+        ? chunkLines(rows.map(formatIssueRowLine)).map(section)
+        : [{ type: 'context', elements: [{ type: 'mrkdwn', text: t(locale, 'common.none') }] }];
+
+    const inProgressRows = buildIssueRows(inProgress, locale);
+    const grouped = groupRowsByState(inProgressRows);
+
+    return [
+        [
+            section(t(locale, 'digest.header', { team: team.name, date: clock.date })),
+            { type: 'divider' }
+        ],
+        [
+            section(t(locale, sinceFriday ? 'digest.completedSinceFriday' : 'digest.completedYesterday', { count: completed.length })),
+            ...rowSections(buildIssueRows(completed, locale)),
+            { type: 'divider' }
+        ],
+        [
+            section(t(locale, 'digest.inProgress', { count: inProgressRows.length })),
+            ...(inProgressRows.length === 0 ? rowSections([]) : sortGroupKeys(grouped).flatMap(key => [
+                section(`*📂 ${key} (${grouped[key].length})*`),
+                ...rowSections(grouped[key])
+            ])),
+            { type: 'divider' }
+        ],
+        [
+            section(t(locale, 'digest.newUnassigned', { count: unassigned.length })),
+            ...rowSections(buildIssueRows(unassigned, locale))
+        ]
+    ];
+}
+
+// Posts the digest; overflow beyond one message goes into its thread
+async function postDigest(client: any, channelId: string, timeZone: string, now = new Date()) {
+    const clock = localClock(timeZone, now);
+    const locale = channelLocale(channelId);
+    const { team, error: teamError } = await resolveTeamForChannel(channelId, undefined, locale);
+    if (!team) throw new Error(teamError);
+
+    const messages = packBlocksIntoMessages(await buildDigestBlocks(team, clock, timeZone, locale));
+    let rootTs: string | undefined;
+    for (const blocks of messages) {
+        const posted = await client.chat.postMessage({
+            channel: channelId,
+            thread_ts: rootTs,
+            text: t(locale, 'digest.title', { team: team.name, date: clock.date }),
+            blocks
+        });
+        rootTs = rootTs || posted.ts;
+    }
+}
+
+registerScheduledJob('daily-digest', async (now) => {
+    for (const { channelId, settings } of ThreadMappingStore.listChannelSettings()) {
+        const digest = settings.digest;
+        if (!digest) continue;
+
+        const clock = localClock(digest.timeZone, now);
+        const dueMinutes = clockTimeToMinutes(digest.time);
+        if (!isWeekday(clock.weekday) || digest.lastSentDate === clock.date) continue;
+        if (clock.minutes < dueMinutes || clock.minutes >= dueMinutes + DIGEST_GRACE_MINUTES) continue;
+
+        // Mark before posting so a failing channel isn't retried every minute
+        ThreadMappingStore.updateChannelSettings(channelId, { digest: { ...digest, lastSentDate: clock.date } });
+        try {
+            await postDigest(app.client, channelId, digest.timeZone, now);
+            console.log(`[Digest] Posted daily digest to ${channelId}`);
+        } catch (error) {
+            console.error(`[Digest] Failed to post digest to ${channelId}`, error);
+        }
+    }
+});
+
+function formatDigestSettings(channelId: string, locale: Locale) {
+    const digest = ThreadMappingStore.getChannelSettings(channelId).digest;
+    return digest
+        ? t(locale, 'digest.schedule', { time: digest.time, timeZone: digest.timeZone })
+        : t(locale, 'digest.notSubscribed');
+}
+
+// -------------------------------------------------------------
+// Slack Command Handler: /이슈요약 (daily digest subscription)
+// - /이슈요약                         : 현재 설정 보기
+// - /이슈요약 구독 [09:30] [Asia/Seoul] : 이 채널에 평일 데일리 요약 구독
+// - /이슈요약 시간 10:00 / 시간대 UTC   : 시간/시간대 변경
+// - /이슈요약 해지                     : 구독 해지
+// - /이슈요약 지금                     : 지금 바로 한 번 게시
+// -------------------------------------------------------------
+app.command(slashCommand('/이슈요약'), async ({ command, ack, respond, client }) => {
+    await ack();
+    const locale = await userLocale(client, command.user_id);
+
+    try {
+        const [rawSub, ...args] = (command.text || '').trim().split(/\s+/).filter(Boolean);
+        const sub = rawSub && normalizeKeyword(rawSub);
+        const channelId = command.channel_id;
+        const current = ThreadMappingStore.getChannelSettings(channelId).digest;
+        const usage = t(locale, 'digest.usage');
+
+        if (!sub) {
+            await respond({ text: t(locale, 'digest.overview', { channel: `<#${channelId}>`, settings: formatDigestSettings(channelId, locale), usage }), response_type: 'ephemeral' });
+            return;
+        }
+
+        if (sub === '지금') {
+            await postDigest(client, channelId, current?.timeZone || DIGEST_DEFAULT_TIME_ZONE);
+            return;
+        }
+
+        if (sub === '해지') {
+            ThreadMappingStore.updateChannelSettings(channelId, { digest: undefined });
+            await respond({ text: t(locale, 'digest.unsubscribed', { user: `<@${command.user_id}>` }), response_type: 'in_channel' });
+            return;
+        }
+
+        let time = current?.time || DIGEST_DEFAULT_TIME;
+        let timeZone = current?.timeZone || DIGEST_DEFAULT_TIME_ZONE;
+
+        if (sub === '구독') {
+            for (const arg of args) {
+                if (arg.includes(':')) time = normalizeClockTime(arg) || '';
+                else timeZone = arg;
+            }
+        } else if (sub === '시간' && current) {
+            time = normalizeClockTime(args[0] || '') || '';
+        } else if (sub === '시간대' && current) {
+            timeZone = args[0] || '';
+        } else if ((sub === '시간' || sub === '시간대') && !current) {
+            await respond({ text: t(locale, 'digest.subscribeFirst'), response_type: 'ephemeral' });
+            return;
+        } else {
+            await respond({ text: t(locale, 'digest.unknown', { usage }), response_type: 'ephemeral' });
+            return;
+        }
+
+        if (!time) {
+            await respond({ text: t(locale, 'common.badTime', { example: '09:30' }), response_type: 'ephemeral' });
+            return;
+        }
+        if (!isValidTimeZone(timeZone)) {
+            await respond({ text: t(locale, 'common.badTimeZone', { timeZone }), response_type: 'ephemeral' });
+            return;
+        }
+
+        const { error: teamError } = await resolveTeamForChannel(channelId, undefined, locale);
+        if (teamError) {
+            await respond({ text: teamError, response_type: 'ephemeral' });
+            return;
+        }
+
+        // Today's slot already passed -> start tomorrow instead of posting right away
+        const clock = localClock(timeZone);
+        const lastSentDate = clock.minutes >= clockTimeToMinutes(time) ? clock.date : current?.lastSentDate;
+
+        ThreadMappingStore.updateChannelSettings(channelId, { digest: { time, timeZone, lastSentDate } });
+        await respond({
+            text: t(locale, 'digest.changed', { user: `<@${command.user_id}>`, settings: formatDigestSettings(channelId, locale) }),
+            response_type: 'in_channel'
+        });
+    } catch (error) {
+        console.error(error);
+        await respond({ text: formatSlackError(locale, error), response_type: 'ephemeral' });
+    }
+});
+
+// -------------------------------------------------------------
+// FEATURE: Cycle (빌드) progress report (/빌드현황)
+// Scope, done vs. remaining (issues and estimate points), per-assignee breakdown,
+// issues added after the cycle started, carry-over candidates and a text burndown.
+// Shown only to the requester unless `게시` is given; `예약` posts it before the cycle ends.
+// -------------------------------------------------------------
+const BUILD_REPORT_DEFAULT_TIME = '17:00';
+const BUILD_CHART_WIDTH = 20;
+const BUILD_CHART_MAX_DAYS = 31;
+// Slack accepts up to 5 responses per response_url
+const RESPONSE_URL_MAX_USES = 5;
+
+// Cycle, its daily history and all of its issues in one request (per 100 issues)
+const CYCLE_REPORT_QUERY = `
+    query CycleReport($id: String!, $after: String) {
+        cycle(id: $id) {
+            id
+            number
+            name
+            startsAt
+            endsAt
+            issueCountHistory
+            completedIssueCountHistory
+            scopeHistory
+            completedScopeHistory
+            issues(first: 100, after: $after) {
+                nodes {
+                    id
+                    identifier
+                    title
+                    url
+                    estimate
+                    addedToCycleAt
+                    assignee { name }
+                    state { name type }
+                }
+                pageInfo { hasNextPage endCursor }
+            }
+        }
+    }
+`;
+
+interface CycleReportIssue {
+    id: string;
+    identifier: string;
+    title: string;
+    url: string;
+    estimate: number | null;
+    addedToCycleAt: string | null;
+    assignee: { name: string } | null;
+    state: { name: string; type: string } | null;
+}
+
+interface CycleReport {
+    id: string;
+    number: number;
+    name: string | null;
+    startsAt: string;
+    endsAt: string;
+    issueCountHistory: number[];
+    completedIssueCountHistory: number[];
+    scopeHistory: number[];
+    completedScopeHistory: number[];
+    issues: CycleReportIssue[];
+}
+
+async function fetchCycleReport(cycleId: string): Promise<CycleReport> {
+    let report: CycleReport | undefined;
+    let after: string | undefined;
+    for (let page = 0; page < 10; page++) {
+        const res: { cycle: Omit<CycleReport, 'issues'> & { issues: { nodes: CycleReportIssue[]; pageInfo: { hasNextPage: boolean; endCursor?: string | null } } } } =
+            await linearClient.client.request(CYCLE_REPORT_QUERY, { id: cycleId, after });
+        const { issues, ...cycle } = res.cycle;
+        report = report ? { ...report, issues: [...report.issues, ...issues.nodes] } : { ...cycle, issues: issues.nodes };
+        if (!issues.pageInfo.hasNextPage || !issues.pageInfo.endCursor) break;
+        after = issues.pageInfo.endCursor;
+    }
+    return report!;
+}
+
+// '42', 'V.1.0.42' or the cycle's name; empty -> current cycle
+async function findCycle(teamId: string, value: string) {
+    if (!value) return getCurrentCycle(teamId);
+
+    const number = value.match(/^(?:V\.1\.0\.)?(\d+)$/i)?.[1];
+    const cycles = await linearClient.cycles({
+        filter: {
+            team: { id: { eq: teamId } },
+            ...(number ? { number: { eq: Number(number) } } : { name: { eqIgnoreCase: value } })
+        },
+        first: 1
+    });
+    return cycles.nodes[0] || null;
+}
+
+const formatPoints = (points: number) => `${Math.round(points * 10) / 10}pt`;
+
+// One row per elapsed day: remaining work as a bar, next to the ideal straight line
+function buildBurndownChart(report: CycleReport, usePoints: boolean, timeZone: string, locale: Locale): string | undefined {
+    const total = usePoints ? report.scopeHistory : report.issueCountHistory;
+    const done = usePoints ? report.completedScopeHistory : report.completedIssueCountHistory;
+    if (total.length === 0) return undefined;
+
+    const remaining = total.map((t, i) => Math.max(0, t - (done[i] || 0)));
+    const startsAt = new Date(report.startsAt).getTime();
+    const days = Math.max(1, Math.round((new Date(report.endsAt).getTime() - startsAt) / DAY_MS));
+    const max = Math.max(...remaining, total[0], 1);
+    const unit = usePoints ? 'pt' : t(locale, 'build.issueUnit');
+
+    const lines = remaining.slice(-BUILD_CHART_MAX_DAYS).map((value, idx) => {
+        const day = remaining.length > BUILD_CHART_MAX_DAYS ? idx + remaining.length - BUILD_CHART_MAX_DAYS : idx;
+        const date = localClock(timeZone, new Date(startsAt + day * DAY_MS)).date.slice(5);
+        const filled = Math.round((value / max) * BUILD_CHART_WIDTH);
+        const ideal = Math.max(0, Math.round(total[0] * (1 - day / days) * 10) / 10);
+        return `${date} ${'█'.repeat(filled)}${'░'.repeat(BUILD_CHART_WIDTH - filled)} ${Math.round(value * 10) / 10}${unit} (${t(locale, 'build.target', { ideal })})`;
+    });
+    return '```\n' + lines.join('\n') + '\n```';
+}
+
+function buildCycleReportBlocks(team: TeamRef, report: CycleReport, timeZone: string, locale: Locale, now = new Date()) {
+    const section = (text: string) => ({ type: 'section', text: { type: 'mrkdwn', text } });
+    const issueLine = (issue: CycleReportIssue, suffix = '') =>
+        `• <${issue.url}|${issue.identifier}> ${issue.title} — ${issue.assignee?.name || t(locale, 'common.unassigned')}${issue.estimate ? ` (${formatPoints(issue.estimate)})` : ''}${suffix}`;
+    const issueSections = (lines: string[]) => lines.length > 0
+        ? chunkLines(lines).map(section)
+        : [{ type: 'context', elements: [{ type: 'mrkdwn', text: t(locale, 'common.none') }] }];
+
+    // Canceled issues don't count towards scope
+    const scope = report.issues.filter(i => i.state?.type !== 'canceled');
+    const completed = scope.filter(i => i.state?.type === 'completed');
+    const remaining = scope.filter(i => i.state?.type !== 'completed');
+    const points = (issues: CycleReportIssue[]) => issues.reduce((sum, i) => sum + (i.estimate || 0), 0);
+    const usePoints = points(scope) > 0;
+
+    const startDate = localClock(timeZone, new Date(report.startsAt)).date;
+    const endDate = localClock(timeZone, new Date(new Date(report.endsAt).getTime() - 1)).date;
+    const daysLeft = Math.ceil((new Date(report.endsAt).getTime() - now.getTime()) / DAY_MS);
+    const percent = scope.length > 0 ? Math.round((completed.length / scope.length) * 100) : 0;
+
+    const pointsSuffix = (issues: CycleReportIssue[]) => usePoints ? ` (${formatPoints(points(issues))})` : '';
+    const summary = [
+        t(locale, 'build.scope', { count: scope.length, points: pointsSuffix(scope) }),
+        t(locale, 'build.progress', {
+            completed: completed.length,
+            completedPoints: pointsSuffix(completed),
+            remaining: remaining.length,
+            remainingPoints: pointsSuffix(remaining),
+            percent
+        })
+    ];
+    const canceledCount = report.issues.length - scope.length;
+    if (canceledCount > 0) summary.push(t(locale, 'build.canceled', { count: canceledCount }));
+
+    // Per assignee: done/total issues (and points)
+    const byAssignee = new Map<string, CycleReportIssue[]>();
+    for (const issue of scope) {
+        const name = issue.assignee?.name || t(locale, 'common.unassigned');
+        byAssignee.set(name, [...(byAssignee.get(name) || []), issue]);
+    }
+    const assigneeLines = [...byAssignee.entries()]
+        .sort((a, b) => b[1].length - a[1].length)
+        .map(([name, issues]) => {
+            const done = issues.filter(i => i.state?.type === 'completed');
+            const pointsText = usePoints ? ` (${formatPoints(points(done))}/${formatPoints(points(issues))})` : '';
+            return t(locale, 'build.assigneeLine', { name, done: done.length, total: issues.length, points: pointsText });
+        });
+
+    const added = scope
+        .filter(i => i.addedToCycleAt && i.addedToCycleAt > report.startsAt)
+        .map(i => issueLine(i, ` · ${t(locale, 'build.addedOn', { date: localClock(timeZone, new Date(i.addedToCycleAt!)).date.slice(5) })}`));
+
+    // Not started yet first: those are the likeliest to slip into the next build
+    const carryOver = [...remaining]
+        .sort((a, b) => Number(a.state?.type === 'started') - Number(b.state?.type === 'started'))
+        .map(i => issueLine(i, ` · ${i.state?.type === 'started' ? '🚧' : '⏳'} ${i.state?.name || t(locale, 'common.unknown')}`));
+
+    const chart = buildBurndownChart(report, usePoints, timeZone, locale);
+
+    return [
+        [
+            section(`${t(locale, 'build.header', { team: team.name, version: formatBuildVersion(report) })}\n${startDate} ~ ${endDate} · ${daysLeft > 0 ? t(locale, 'build.daysLeft', { days: daysLeft }) : t(locale, 'build.ended')}`),
+            section(summary.join('\n')),
+            { type: 'divider' }
+        ],
+        [
+            section(t(locale, usePoints ? 'build.burndownPoints' : 'build.burndownIssues')),
+            ...(chart ? [section(chart)] : [{ type: 'context', elements: [{ type: 'mrkdwn', text: t(locale, 'build.noHistory') }] }]),
+            { type: 'divider' }
+        ],
+        [
+            section(t(locale, 'build.byAssignee')),
+            ...issueSections(assigneeLines),
+            { type: 'divider' }
+        ],
+        [
+            section(t(locale, 'build.added', { count: added.length })),
+            ...issueSections(added),
+            { type: 'divider' }
+        ],
+        [
+            section(t(locale, 'build.carryOver', { count: carryOver.length })),
+            ...issueSections(carryOver)
+        ]
+    ];
+}
+
+// Builds the report for the channel's team. Returns packed messages, or an error message.
+async function buildCycleReportMessages(channelId: string, cycleArg: string, timeZone: string, locale: Locale): Promise<{ messages: any[][]; title: string; error?: undefined } | { messages?: undefined; title?: undefined; error: string }> {
+    const { team, error: teamError } = await resolveTeamForChannel(channelId, undefined, locale);
+    if (!team) return { error: teamError! };
+
+    const cycle = await findCycle(team.id, cycleArg);
+    if (!cycle) {
+        return {
+            error: cycleArg
+                ? t(locale, 'build.notFound', { team: team.key, cycle: cycleArg })
+                : t(locale, 'build.noActive', { team: team.key })
+        };
+    }
+
+    const report = await fetchCycleReport(cycle.id);
+    return {
+        messages: packBlocksIntoMessages(buildCycleReportBlocks(team, report, timeZone, locale)),
+        title: t(locale, 'build.title', { team: team.name, version: formatBuildVersion(report) })
+    };
+}
+
+// Posts the report in the channel; overflow beyond one message goes into its thread
+async function postCycleReport(client: any, channelId: string, messages: any[][], title: string) {
+    let rootTs: string | undefined;
+    for (const blocks of messages) {
+        const posted = await client.chat.postMessage({ channel: channelId, thread_ts: rootTs, text: title, blocks });
+        rootTs = rootTs || posted.ts;
+    }
+}
+
+registerScheduledJob('build-report', async (now) => {
+    for (const { channelId, settings } of ThreadMappingStore.listChannelSettings()) {
+        const schedule = settings.buildReport;
+        if (!schedule) continue;
+
+        // Outside the posting window -> no need to ask Linear about the cycle
+        const clock = localClock(schedule.timeZone, now);
+        const dueMinutes = clockTimeToMinutes(schedule.time);
+        if (clock.minutes < dueMinutes || clock.minutes >= dueMinutes + DIGEST_GRACE_MINUTES) continue;
+
+        const { team } = await resolveTeamForChannel(channelId);
+        const cycle = team ? await getCurrentCycle(team.id) : null;
+        if (!cycle?.isActive || schedule.lastSentCycleId === cycle.id) continue;
+
+        // Local date of the cycle's last day, minus daysBeforeEnd
+        const target = localClock(schedule.timeZone, new Date(cycle.endsAt.getTime() - 1 - schedule.daysBeforeEnd * DAY_MS)).date;
+        if (clock.date !== target) continue;
+
+        // Mark before posting so a failing channel isn't retried every minute
+        ThreadMappingStore.updateChannelSettings(channelId, { buildReport: { ...schedule, lastSentCycleId: cycle.id } });
+        try {
+            const { messages, title, error } = await buildCycleReportMessages(channelId, '', schedule.timeZone, channelLocale(channelId));
+            if (!messages) throw new Error(error);
+            await postCycleReport(app.client, channelId, messages, title);
+            console.log(`[BuildReport] Posted cycle report to ${channelId}`);
+        } catch (error) {
+            console.error(`[BuildReport] Failed to post cycle report to ${channelId}`, error);
+        }
+    }
+});
+
+function formatBuildReportSchedule(channelId: string, locale: Locale) {
+    const schedule = ThreadMappingStore.getChannelSettings(channelId).buildReport;
+    if (!schedule) return t(locale, 'build.notScheduled');
+    const when = schedule.daysBeforeEnd === 0 ? t(locale, 'build.lastDay') : t(locale, 'build.daysBeforeEnd', { days: schedule.daysBeforeEnd });
+    return t(locale, 'build.schedule', { when, time: schedule.time, timeZone: schedule.timeZone });
+}
+
+// /빌드현황 예약 [일] [HH:MM] [시간대] / 예약 해지
+async function handleBuildReportSchedule(command: any, args: string[], respond: any, locale: Locale) {
+    const channelId = command.channel_id;
+    const current = ThreadMappingStore.getChannelSettings(channelId).buildReport;
+
+    if (args[0] && normalizeKeyword(args[0]) === '해지') {
+        ThreadMappingStore.updateChannelSettings(channelId, { buildReport: undefined });
+        await respond({ text: t(locale, 'build.unscheduled', { user: `<@${command.user_id}>` }), response_type: 'in_channel' });
+        return;
+    }
+
+    let daysBeforeEnd = current?.daysBeforeEnd ?? 1;
+    let time: string = current?.time || BUILD_REPORT_DEFAULT_TIME;
+    let timeZone = current?.timeZone || DIGEST_DEFAULT_TIME_ZONE;
+    for (const arg of args) {
+        const days = arg.match(/^(\d+)(?:일(?:\s*전)?|d)?$/i)?.[1];
+        if (days !== undefined) daysBeforeEnd = Number(days);
+        else if (arg.includes(':')) time = normalizeClockTime(arg) || '';
+        else timeZone = arg;
+    }
+
+    if (!time) {
+        await respond({ text: t(locale, 'common.badTime', { example: '17:00' }), response_type: 'ephemeral' });
+        return;
+    }
+    if (!isValidTimeZone(timeZone)) {
+        await respond({ text: t(locale, 'common.badTimeZone', { timeZone }), response_type: 'ephemeral' });
+        return;
+    }
+
+    const { error: teamError } = await resolveTeamForChannel(channelId, undefined, locale);
+    if (teamError) {
+        await respond({ text: teamError, response_type: 'ephemeral' });
+        return;
+    }
 
-        if (!rootMessage.ts) throw new Error("Failed to get root message TS.");
+    // Keep lastSentCycleId so changing the time doesn't repost for the same cycle
+    ThreadMappingStore.updateChannelSettings(channelId, { buildReport: { daysBeforeEnd, time, timeZone, lastSentCycleId: current?.lastSentCycleId } });
+    await respond({
+        text: t(locale, 'build.scheduled', { user: `<@${command.user_id}>`, settings: formatBuildReportSchedule(channelId, locale) }),
+        response_type: 'in_channel'
+    });
+}
 
-        // Save Mapping
-        ThreadMappingStore.set(issue.identifier, command.channel_id, rootMessage.ts);
+// -------------------------------------------------------------
+// Slack Command Handler: /빌드현황
+// - /빌드현황 [빌드]          : 현재(또는 지정한: 42, V.1.0.42, 이름) 빌드 현황을 나에게만 보기
+// - /빌드현황 [빌드] 게시     : 채널에 게시
+// - /빌드현황 예약 [1] [17:00] [Asia/Seoul] : 빌드 종료 N일 전 지정 시각에 자동 게시 (0 = 마지막 날)
+// - /빌드현황 예약 해지
+// -------------------------------------------------------------
+app.command(slashCommand('/빌드현황'), async ({ command, ack, respond, client }) => {
+    await ack();
+    const locale = await userLocale(client, command.user_id);
 
-        // 6. Post Threaded Actions Message
-        const threadMessage = await client.chat.postMessage({
-            channel: command.channel_id,
-            thread_ts: rootMessage.ts,
-            text: "관리 도구",
-            blocks: [
-                {
-                    type: "section",
-                    text: {
-                        type: "mrkdwn",
-                        text: "*관리 도구가 여기로 이동했습니다.*"
-                    }
-                }
-            ]
-        });
+    try {
+        const args = (command.text || '').trim().split(/\s+/).filter(Boolean);
+        const channelId = command.channel_id;
 
-        console.log(`[Debug] Post Thread Message Success: ${threadMessage.ts}`);
+        if (args[0] && normalizeKeyword(args[0]) === '예약') {
+            await handleBuildReportSchedule(command, args.slice(1), respond, locale);
+            return;
+        }
 
-    } catch (error) {
-        console.error(error);
-        let errorMessage = (error as Error).message;
+        const post = args.some(a => normalizeKeyword(a) === '게시');
+        const cycleArg = args.filter(a => normalizeKeyword(a) !== '게시').join(' ');
+        const timeZone = ThreadMappingStore.getChannelSettings(channelId).buildReport?.timeZone || DIGEST_DEFAULT_TIME_ZONE;
+
+        // Posted reports live in the channel, so they follow the channel's language
+        const { messages, title, error } = await buildCycleReportMessages(channelId, cycleArg, timeZone, post ? channelLocale(channelId) : locale);
+        if (!messages) {
+            await respond({ text: error, response_type: 'ephemeral' });
+            return;
+        }
 
-        if (errorMessage.includes("channel_not_found")) {
-            errorMessage = "봇이 이 채널에 초대되지 않았습니다. 채널에서 `/invite @봇이름`을 입력하여 봇을 초대해 주세요!";
+        if (post) {
+            await postCycleReport(client, channelId, messages, title);
+            return;
         }
 
+        // A response_url takes at most 5 messages: the report gets 4, the footer the last one
+        const shown = messages.slice(0, RESPONSE_URL_MAX_USES - 1);
+        for (const blocks of shown) {
+            await respond({ text: title, blocks, response_type: 'ephemeral' });
+        }
+        const footer = t(locale, 'build.footer', { cycle: cycleArg ? `${cycleArg} ` : '', settings: formatBuildReportSchedule(channelId, locale) });
         await respond({
-            text: `❌ 오류가 발생했습니다: ${errorMessage}`,
+            text: messages.length > shown.length
+                ? `${t(locale, 'build.truncated', { cycle: cycleArg ? `${cycleArg} ` : '' })}\n${footer}`
+                : footer,
             response_type: 'ephemeral'
         });
+    } catch (error) {
+        console.error(error);
+        await respond({ text: formatSlackError(locale, error), response_type: 'ephemeral' });
     }
 });
 
 // -------------------------------------------------------------
-// Issue list helpers (state/tag grouping + optional assignee override)
+// HELPER: Undo for state / assignee changes made from Slack
+// Every change is followed by an ephemeral "되돌리기" button carrying the previous value.
+// Undo only applies while the field still holds the value we set, so later edits aren't clobbered.
 // -------------------------------------------------------------
-const tagPrefixRegex = /^\s*(\[[^\]]+\]\s*)+/;
-const extractTitleTags = (title: string): string[] => {
-    const prefix = title.match(tagPrefixRegex)?.[0];
-    if (!prefix) return [];
-    const tags: string[] = [];
-    const re = /\[([^\]]+)\]/g;
-    let m: RegExpExecArray | null;
-    while ((m = re.exec(prefix)) !== null) {
-        const t = (m[1] || '').trim();
-        if (t) tags.push(t);
-    }
-    return tags;
-};
+type UndoableField = 'stateId' | 'assigneeId';
 
-async function getSlackEmailByUserId(client: any, userId: string): Promise<string | null> {
-    const slackUser = await client.users.info({ user: userId });
-    return slackUser.user?.profile?.email || null;
+interface IssueChangeUndo {
+    issueId: string;
+    field: UndoableField;
+    from: string | null;
+    to: string | null;
 }
 
-async function resolveSlackUserIdFromToken(client: any, token: string): Promise<string | null> {
-    const raw = (token || '').trim();
-    // allow tokens like "@jun," or "<@U123>,"
-    const cleaned = raw.replace(/[,:;]+$/g, '');
+// Applies the change and returns what is needed to undo it
+async function updateIssueWithUndo(issueId: string, field: UndoableField, value: string | null): Promise<IssueChangeUndo> {
+    const issue = await linearClient.issue(issueId);
+    const from = issue[field] ?? null;
+    await linearClient.updateIssue(issue.id, { [field]: value });
+    return { issueId: issue.id, field, from, to: value };
+}
 
-    // Preferred: Slack mention token like <@U123ABC> or <@U123ABC|name>
-    const mention = cleaned.match(/^<@([A-Z0-9]+)(?:\|[^>]+)?>$/);
-    if (mention) return mention[1];
+const undoButton = (undo: IssueChangeUndo, locale: Locale) => ({
+    type: 'button',
+    action_id: 'undo_issue_change',
+    text: { type: 'plain_text', text: t(locale, 'undo.button'), emoji: true },
+    value: JSON.stringify(undo)
+});
 
-    // Best-effort: plain @name
-    const at = cleaned.match(/^@([\w.\-]+)$/);
-    if (!at) return null;
+async function offerUndo(params: { client: any; channelId: string; userId: string; threadTs?: string; text: string; undo: IssueChangeUndo }) {
+    const { client, channelId, userId, threadTs, text, undo } = params;
+    const locale = await userLocale(client, userId);
+    await client.chat.postEphemeral({
+        channel: channelId,
+        user: userId,
+        thread_ts: threadTs,
+        text,
+        blocks: [
+            { type: 'section', text: { type: 'mrkdwn', text } },
+            { type: 'actions', elements: [undoButton(undo, locale)] }
+        ]
+    });
+}
 
-    const handle = (at[1] || '').trim();
-    const h = handle.toLowerCase();
+// Ephemeral undo next to the card the action came from (cards posted by the shortcut live in a thread)
+const offerUndoForAction = (client: any, body: any, text: string, undo: IssueChangeUndo) => offerUndo({
+    client,
+    channelId: body.channel.id,
+    userId: body.user.id,
+    threadTs: body.message?.thread_ts,
+    text,
+    undo
+});
 
-    const norm = (s?: string) => (s || '').trim().toLowerCase();
+async function applyUndo(undo: IssueChangeUndo, locale: Locale): Promise<string> {
+    const issue = await linearClient.issue(undo.issueId);
+    if ((issue[undo.field] ?? null) !== undo.to) {
+        return t(locale, 'undo.changedSince', { identifier: issue.identifier });
+    }
 
-    // NOTE: requires users:read. If not available, we'll just fail gracefully.
+    await linearClient.updateIssue(issue.id, { [undo.field]: undo.from });
+    await refreshIssueCard(issue.id);
+    return t(locale, undo.field === 'stateId' ? 'undo.stateReverted' : 'undo.assigneeReverted', { identifier: issue.identifier });
+}
+
+app.action('undo_issue_change', async ({ action, ack, body, client, respond }) => {
+    await ack();
+    if (action.type !== 'button' || !action.value) return;
+
+    const locale = await userLocale(client, body.user.id);
+    let text: string;
     try {
-        let cursor: string | undefined = undefined;
-        for (let i = 0; i < 5; i++) { // safety cap
-            const res: any = await client.users.list({ limit: 200, cursor });
-            const members = res.members || [];
-            const match = members.find((m: any) => {
-                if (m.deleted || m.is_bot) return false;
-                const name = norm(m.name);
-                const dn = norm(m.profile?.display_name);
-                const dnn = norm(m.profile?.display_name_normalized);
-                const rn = norm(m.profile?.real_name);
-                const rnn = norm(m.profile?.real_name_normalized);
-                return name === h || dn === h || dnn === h || rn === h || rnn === h;
-            });
-            if (match?.id) return match.id;
-            cursor = res.response_metadata?.next_cursor;
-            if (!cursor) break;
+        text = await applyUndo(JSON.parse(action.value), locale);
+    } catch (error) {
+        console.error(error);
+        text = t(locale, 'undo.failed', { error: (error as Error).message });
+    }
+
+    try {
+        // Undo from the App Home notice re-publishes the tab, elsewhere it replaces the ephemeral message
+        if ((body as any).view?.type === 'home') {
+            await publishAppHome(client, body.user.id, homeModeOf(body), text);
+        } else {
+            await respond({ text, replace_original: true });
         }
-    } catch (e) {
-        console.warn("Failed to list users (missing users:read scope?)", e);
+    } catch (error) {
+        console.error(error);
     }
+});
 
-    return null;
-}
+// Action Handler: 나에게 할당 버튼 (Assign to me - Button)
+app.action('assign_to_me_btn', async ({ action, ack, body, client, respond }) => {
+    await ack();
+    if (action.type !== 'button' || !action.value) return;
 
-async function fetchActiveIssuesByAssigneeId(assigneeId: string) {
-    return linearClient.issues({
-        filter: {
-            assignee: { id: { eq: assigneeId } },
-            state: { type: { nin: ['completed', 'canceled'] } }
+    try {
+        const issueId = action.value;
+        const locale = await userLocale(client, body.user.id);
+        const { linearUser, error: userError } = await matchLinearUserForSlackUser(client, body.user.id, locale);
+        if (!linearUser) {
+            await respond({ text: userError!, response_type: 'ephemeral', replace_original: false });
+            return;
         }
-    });
-}
 
-type IssueRow = { issue: any; assigneeName: string; tags: string[]; stateName: string };
+        const undo = await updateIssueWithUndo(issueId, 'assigneeId', linearUser.id);
+        await refreshIssueCard(issueId, cardFromAction(body));
+        await offerUndoForAction(client, body, t(locale, 'undo.assignedToMe'), undo);
+    } catch (error) {
+        console.error(error);
+    }
+});
 
-async function buildIssueRows(issues: any[]): Promise<IssueRow[]> {
-    const rows: IssueRow[] = [];
-    for (const issue of issues) {
-        const assignee = await issue.assignee;
-        const state = await issue.state;
-        rows.push({
-            issue,
-            assigneeName: assignee?.name || 'Unassigned',
-            tags: extractTitleTags(issue.title || ''),
-            stateName: state?.name || 'Unknown'
+// Action Handler: 팀원에게 할당 (Assign to user - Dropdown)
+app.action('assign_to_user', async ({ action, ack, body, client }) => {
+    await ack();
+    if (action.type !== 'static_select' || !action.selected_option) return;
+
+    try {
+        const { issueId, userId } = JSON.parse(action.selected_option.value);
+
+        const undo = await updateIssueWithUndo(issueId, 'assigneeId', userId);
+        await refreshIssueCard(issueId, cardFromAction(body));
+        const locale = await userLocale(client, body.user.id);
+        await offerUndoForAction(client, body, t(locale, 'undo.assigneeChanged', { assignee: action.selected_option.text.text }), undo);
+    } catch (error) {
+        console.error(error);
+    }
+});
+
+// Action Handler: 상태 변경 (card state picker, options are the team's workflow states)
+app.action('change_state', async ({ action, ack, body, client }) => {
+    await ack();
+    if (action.type !== 'static_select' || !action.selected_option) return;
+
+    try {
+        const issueId = action.block_id.split(':')[1];
+
+        const undo = await updateIssueWithUndo(issueId, 'stateId', action.selected_option.value);
+        await refreshIssueCard(issueId, cardFromAction(body));
+        const locale = await userLocale(client, body.user.id);
+        await offerUndoForAction(client, body, t(locale, 'undo.stateChanged', { state: action.selected_option.text.text }), undo);
+    } catch (error) {
+        console.error(error);
+    }
+});
+
+// Action Handler: 다시 열기 (closed issues go back to the team's first unstarted state)
+app.action('reopen_issue', async ({ action, ack, body, client }) => {
+    await ack();
+    if (action.type !== 'button' || !action.value) return;
+
+    try {
+        const issueId = action.value;
+        const issue = await linearClient.issue(issueId);
+        if (!issue.teamId) throw new Error("Team not found for issue.");
+
+        const states = await linearClient.workflowStates({ filter: { team: { id: { eq: issue.teamId } } } });
+        const ordered = [...states.nodes].sort((a, b) => a.position - b.position);
+        const reopenState = ['unstarted', 'backlog', 'started']
+            .map(type => ordered.find(s => s.type === type))
+            .find(Boolean);
+        if (!reopenState) throw new Error("Could not find an open state.");
+
+        const undo = await updateIssueWithUndo(issueId, 'stateId', reopenState.id);
+        await refreshIssueCard(issueId, cardFromAction(body));
+
+        const mapping = ThreadMappingStore.getByIssueId(issue.id) || ThreadMappingStore.get(issue.identifier);
+        const threadTs = mapping?.threadTs || (body as any).message?.thread_ts || (body as any).message?.ts;
+        const channelId = mapping?.channelId || (body as any).channel.id;
+        await client.chat.postMessage({
+            channel: channelId,
+            thread_ts: threadTs,
+            text: t(channelLocale(channelId), 'undo.reopenedNotice', { user: `<@${body.user.id}>`, state: reopenState.name })
         });
+        const locale = await userLocale(client, body.user.id);
+        await offerUndoForAction(client, body, t(locale, 'undo.reopened', { state: reopenState.name }), undo);
+    } catch (error) {
+        console.error(error);
+    }
+});
+
+// -------------------------------------------------------------
+// FEATURE: Due-date / staleness reminders
+// Mapped, still-open issues get a nudge in their Slack thread (mentioning the assignee)
+// when the due date is near/past or the state hasn't changed for a while.
+// At most one nudge per issue per day, on weekdays during working hours.
+// -------------------------------------------------------------
+const REMINDER_DEFAULTS: ReminderSettings = { enabled: true, dueSoonDays: 1, staleDays: 7 };
+const REMINDER_SCAN_INTERVAL_MS = 60 * 60 * 1000;
+const REMINDER_MIN_GAP_MS = 20 * 60 * 60 * 1000;
+// Local working hours (channel digest time zone, or DIGEST_TIMEZONE)
+const REMINDER_HOURS = { from: 9 * 60, to: 18 * 60 };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const reminderSettingsFor = (channelId: string): ReminderSettings =>
+    ({ ...REMINDER_DEFAULTS, ...ThreadMappingStore.getChannelSettings(channelId).reminders });
+
+// State history is inlined so staleness needs no per-issue requests (newest entries first)
+const REMINDER_ISSUES_QUERY = `
+    query ReminderIssues($filter: IssueFilter) {
+        issues(filter: $filter, first: 100) {
+            nodes {
+                id
+                identifier
+                title
+                url
+                dueDate
+                createdAt
+                assignee { id email }
+                state { name }
+                history(first: 50, orderBy: createdAt) {
+                    nodes { createdAt toStateId }
+                    pageInfo { hasNextPage }
+                }
+            }
+        }
     }
-    return rows;
+`;
+
+interface ReminderIssue {
+    id: string;
+    identifier: string;
+    title: string;
+    url: string;
+    dueDate: string | null;
+    createdAt: string;
+    assignee: { id: string; email: string } | null;
+    state: { name: string } | null;
+    history: { nodes: { createdAt: string; toStateId: string | null }[]; pageInfo: { hasNextPage: boolean } };
 }
 
-function groupRowsByState(rows: IssueRow[]) {
-    const grouped: Record<string, IssueRow[]> = {};
-    for (const r of rows) {
-        const key = r.stateName;
-        if (!grouped[key]) grouped[key] = [];
-        grouped[key].push(r);
+async function fetchOpenReminderIssues(issueIds: string[]): Promise<ReminderIssue[]> {
+    const issues: ReminderIssue[] = [];
+    for (let i = 0; i < issueIds.length; i += 100) {
+        const res: { issues: { nodes: ReminderIssue[] } } = await linearClient.client.request(REMINDER_ISSUES_QUERY, {
+            filter: {
+                id: { in: issueIds.slice(i, i + 100) },
+                state: { type: { nin: ['completed', 'canceled'] } }
+            }
+        });
+        issues.push(...res.issues.nodes);
     }
-    return grouped;
+    return issues;
 }
 
-function groupRowsByTags(rows: IssueRow[], requestedTag?: string) {
-    const grouped: Record<string, IssueRow[]> = {};
+const daysBetween = (fromDate: string, toDate: string) => Math.round((Date.parse(toDate) - Date.parse(fromDate)) / DAY_MS);
 
-    for (const r of rows) {
-        const tags = r.tags;
-        if (tags.length === 0) {
-            const key = 'NoTag';
-            if (!requestedTag || requestedTag === key) {
-                if (!grouped[key]) grouped[key] = [];
-                grouped[key].push(r);
-            }
-            continue;
-        }
+function describeReminderReasons(issue: ReminderIssue, settings: ReminderSettings, today: string, now: Date, locale: Locale): string[] {
+    const reasons: string[] = [];
 
-        // duplicate inclusion for all tags
-        for (const t of tags) {
-            if (requestedTag && requestedTag !== t) continue;
-            if (!grouped[t]) grouped[t] = [];
-            grouped[t].push(r);
+    if (issue.dueDate) {
+        const daysLeft = daysBetween(today, issue.dueDate);
+        if (daysLeft < 0) reasons.push(t(locale, 'reminder.overdue', { days: -daysLeft, date: issue.dueDate }));
+        else if (daysLeft === 0) reasons.push(t(locale, 'reminder.dueToday', { date: issue.dueDate }));
+        else if (daysLeft <= settings.dueSoonDays) reasons.push(t(locale, 'reminder.dueSoon', { days: daysLeft, date: issue.dueDate }));
+    }
+
+    if (settings.staleDays > 0) {
+        const entries = issue.history.nodes.map(h => h.createdAt).sort();
+        const stateChanges = issue.history.nodes.filter(h => h.toStateId).map(h => h.createdAt).sort();
+        // No state change among the newest 50 entries of a longer history: the last one is older than
+        // the oldest entry we have, so counting from that entry can only under-report idle days
+        const lastChange = stateChanges.pop()
+            || (issue.history.pageInfo.hasNextPage ? entries[0] : undefined)
+            || issue.createdAt;
+        const idleDays = Math.floor((now.getTime() - Date.parse(lastChange)) / DAY_MS);
+        if (idleDays >= settings.staleDays) {
+            reasons.push(t(locale, 'reminder.stale', { days: idleDays, state: issue.state?.name || t(locale, 'common.unknown') }));
         }
     }
 
-    return grouped;
+    return reasons;
 }
 
-function sortGroupKeys(grouped: Record<string, any[]>) {
-    return Object.keys(grouped).sort((a, b) => {
-        const diff = (grouped[b]?.length || 0) - (grouped[a]?.length || 0);
-        if (diff !== 0) return diff;
-        return a.localeCompare(b);
-    });
+function buildReminderBlocks(issue: ReminderIssue, text: string, locale: Locale) {
+    return [
+        { type: 'section', text: { type: 'mrkdwn', text } },
+        {
+            type: 'actions',
+            elements: [
+                {
+                    type: 'button',
+                    action_id: 'reminder_snooze_day',
+                    text: { type: 'plain_text', text: t(locale, 'reminder.snoozeDay') },
+                    value: JSON.stringify({ issueId: issue.id, days: 1 })
+                },
+                {
+                    type: 'button',
+                    action_id: 'reminder_snooze_week',
+                    text: { type: 'plain_text', text: t(locale, 'reminder.snoozeWeek') },
+                    value: JSON.stringify({ issueId: issue.id, days: 7 })
+                },
+                {
+                    type: 'button',
+                    action_id: 'reminder_mark_done',
+                    text: { type: 'plain_text', text: t(locale, 'card.markDone') },
+                    style: 'primary',
+                    value: issue.id
+                }
+            ]
+        }
+    ];
 }
 
-async function postGroupedListToThread(params: {
-    client: any;
-    channelId: string;
-    requesterId: string;
-    assigneeSlackIds: string[];
-    mode: 'state' | 'tag';
-    requestedTag?: string;
-    grouped: Record<string, IssueRow[]>;
-    totalIssues: number;
-}) {
-    const { client, channelId, requesterId, assigneeSlackIds, mode, requestedTag, grouped, totalIssues } = params;
+// Mappings imported from the legacy thread_map.json only have the identifier; look up their issue IDs once
+const unresolvedLegacyMappings = new Set<string>();
+
+async function backfillLegacyIssueIds() {
+    for (const mapping of ThreadMappingStore.listMappings()) {
+        if (mapping.issueId || unresolvedLegacyMappings.has(mapping.issueIdentifier)) continue;
+        try {
+            const issue = await linearClient.issue(mapping.issueIdentifier);
+            ThreadMappingStore.set({ ...mapping, issueId: issue.id });
+            console.log(`[Reminder] Resolved issue ID for legacy mapping ${mapping.issueIdentifier}`);
+        } catch (error) {
+            unresolvedLegacyMappings.add(mapping.issueIdentifier);
+            console.warn(`[Reminder] Could not resolve legacy mapping ${mapping.issueIdentifier}; it won't get reminders`, error);
+        }
+    }
+}
 
-    const groupKeys = sortGroupKeys(grouped);
+async function sendIssueReminders(now: Date) {
+    await backfillLegacyIssueIds();
+    const mappings = ThreadMappingStore.listMappings().filter(m => m.issueId
+        && (!m.snoozedUntil || Date.parse(m.snoozedUntil) <= now.getTime())
+        && (!m.remindedAt || now.getTime() - Date.parse(m.remindedAt) >= REMINDER_MIN_GAP_MS));
+
+    // Only channels that have reminders on and are inside working hours right now
+    const clocks = new Map<string, ReturnType<typeof localClock>>();
+    const due = mappings.filter(m => {
+        if (!clocks.has(m.channelId)) {
+            const timeZone = ThreadMappingStore.getChannelSettings(m.channelId).digest?.timeZone || DIGEST_DEFAULT_TIME_ZONE;
+            clocks.set(m.channelId, localClock(timeZone, now));
+        }
+        const clock = clocks.get(m.channelId)!;
+        return reminderSettingsFor(m.channelId).enabled
+            && isWeekday(clock.weekday)
+            && clock.minutes >= REMINDER_HOURS.from && clock.minutes < REMINDER_HOURS.to;
+    });
+    if (due.length === 0) return;
 
-    const assigneesText = (assigneeSlackIds && assigneeSlackIds.length > 0)
-        ? assigneeSlackIds.map(id => `<@${id}>`).join(', ')
-        : `<@${requesterId}>`;
+    const issues = await fetchOpenReminderIssues(due.map(m => m.issueId!));
+    const byId = new Map(issues.map(issue => [issue.id, issue]));
 
-    const header = mode === 'tag'
-        ? (requestedTag
-            ? `🔖 *<@${requesterId}>님 요청: ${assigneesText}의 태그별 활성 이슈 목록* (필터: \`${requestedTag}\`)`
-            : `🔖 *<@${requesterId}>님 요청: ${assigneesText}의 태그별 활성 이슈 목록*`)
-        : `🔍 *<@${requesterId}>님 요청: ${assigneesText}의 상태별 활성 이슈 목록*`;
+    for (const mapping of due) {
+        const issue = byId.get(mapping.issueId!);
+        if (!issue) continue;
 
-    const rootMessage = await client.chat.postMessage({
-        channel: channelId,
-        text: mode === 'tag' ? '태그별 이슈 목록' : '상태별 이슈 목록',
+        const locale = channelLocale(mapping.channelId);
+        const reasons = describeReminderReasons(issue, reminderSettingsFor(mapping.channelId), clocks.get(mapping.channelId)!.date, now, locale);
+        if (reasons.length === 0) continue;
+
+        const assigneeId = issue.assignee ? await slackUserForLinearUser(issue.assignee) : null;
+        const who = assigneeId ? `<@${assigneeId}>` : t(locale, 'reminder.noAssignee');
+        const text = `${t(locale, 'reminder.header', { who, issue: `<${issue.url}|${issue.identifier}>` })}\n${reasons.map(r => `• ${r}`).join('\n')}`;
+
+        try {
+            await app.client.chat.postMessage({
+                channel: mapping.channelId,
+                thread_ts: mapping.threadTs,
+                text,
+                blocks: buildReminderBlocks(issue, text, locale)
+            });
+            ThreadMappingStore.set({ ...mapping, remindedAt: now.toISOString() });
+            console.log(`[Reminder] Nudged ${issue.identifier} in ${mapping.channelId}`);
+        } catch (error) {
+            console.error(`[Reminder] Failed to nudge ${issue.identifier}`, error);
+        }
+    }
+}
+
+let lastReminderScanAt = 0;
+registerScheduledJob('issue-reminders', async (now) => {
+    if (now.getTime() - lastReminderScanAt < REMINDER_SCAN_INTERVAL_MS) return;
+    lastReminderScanAt = now.getTime();
+    await sendIssueReminders(now);
+});
+
+// Replaces the nudge's buttons with what happened to it
+async function resolveReminderMessage(client: any, body: any, note: string) {
+    const text = body.message?.blocks?.[0]?.text?.text || body.message?.text || '';
+    await client.chat.update({
+        channel: body.channel.id,
+        ts: body.message.ts,
+        text,
         blocks: [
-            {
-                type: 'section',
-                text: { type: 'mrkdwn', text: header }
-            },
-            {
-                type: 'context',
-                elements: [
-                    {
-                        type: 'mrkdwn',
-                        text: `총 ${totalIssues}개의 이슈를 조회했습니다. (그룹 ${groupKeys.length}개) 자세한 내용은 스레드를 확인해주세요! 👇`
-                    }
-                ]
-            }
+            { type: 'section', text: { type: 'mrkdwn', text } },
+            { type: 'context', elements: [{ type: 'mrkdwn', text: note }] }
         ]
     });
+}
+
+app.action(/^reminder_snooze_(day|week)$/, async ({ action, ack, body, client }) => {
+    await ack();
+    if (action.type !== 'button' || !action.value) return;
+
+    try {
+        const { issueId, days } = JSON.parse(action.value);
+        const mapping = ThreadMappingStore.getByIssueId(issueId);
+        if (mapping) {
+            ThreadMappingStore.set({ ...mapping, snoozedUntil: new Date(Date.now() + days * DAY_MS).toISOString() });
+        }
+        const locale = channelLocale(body.channel?.id);
+        const user = `<@${body.user.id}>`;
+        await resolveReminderMessage(client, body, days === 1
+            ? t(locale, 'reminder.snoozedDay', { user })
+            : t(locale, 'reminder.snoozedDays', { user, days }));
+    } catch (error) {
+        console.error(error);
+    }
+});
+
+app.action('reminder_mark_done', async ({ action, ack, body, client }) => {
+    await ack();
+    if (action.type !== 'button' || !action.value) return;
+
+    try {
+        const undo = await markIssueDone({ client, issueId: action.value, userId: body.user.id });
+        await resolveReminderMessage(client, body, t(channelLocale(body.channel?.id), 'reminder.doneBy', { user: `<@${body.user.id}>` }));
+        await offerUndoForAction(client, body, t(await userLocale(client, body.user.id), 'undo.done'), undo);
+    } catch (error) {
+        console.error(error);
+    }
+});
 
-    if (!rootMessage.ts) throw new Error('Failed to post root message.');
+// Moves the issue to its team's done state, re-renders the card and posts feedback in the thread.
+// Shared by the card's "처리완료" button, reminder nudges and ✅ reactions. Returns the undo for the state change.
+async function markIssueDone(params: { client: any; issueId: string; userId: string; card?: CardLocation; threadTsHint?: string }): Promise<IssueChangeUndo> {
+    const { client, issueId, userId, card, threadTsHint } = params;
 
-    const threadBlocks: any[] = [];
-    for (const key of groupKeys) {
-        const rows = grouped[key] || [];
-        threadBlocks.push({
-            type: 'section',
-            text: { type: 'mrkdwn', text: mode === 'tag' ? `*📂 [${key}] (${rows.length})*` : `*📂 ${key} (${rows.length})*` }
-        });
+    // States are looked up in the issue's own team (channels may route to different teams)
+    const issue = await linearClient.issue(issueId);
+    const teamId = issue.teamId;
 
-        const lines = rows.map(r => `• <${r.issue.url}|${r.issue.title}>  —  *${r.assigneeName}*`);
-        threadBlocks.push({ type: 'section', text: { type: 'mrkdwn', text: lines.join('\n') } });
-        threadBlocks.push({ type: 'divider' });
-    }
+    if (!teamId) throw new Error("Team not found for issue.");
 
-    await client.chat.postMessage({
-        channel: channelId,
-        thread_ts: rootMessage.ts,
-        text: mode === 'tag' ? '태그별 이슈 리스트' : '상태별 이슈 리스트',
-        blocks: threadBlocks
+    const states = await linearClient.workflowStates({
+        filter: {
+            team: { id: { eq: teamId } },
+            name: { in: ["Done", "Completed", "완료"] }
+        }
     });
-}
 
-// -------------------------------------------------------------
-// Slack Command Handler: /이슈목록
-// - 기본: 상태별 그룹
-// - /이슈목록 태그 [TagName]: 태그별 그룹(+필터)
-// - /이슈목록 @jun,@sean : 복수 assignee 지원(권장: 멘션 선택)
-// - 조합: /이슈목록 @jun,@sean 태그 [TagName]
-// -------------------------------------------------------------
-app.command('/이슈목록', async ({ command, ack, respond, client }) => {
-    return handleIssueListCommand({ command, ack, respond, client });
-});
+    const doneState = states.nodes[0] || (await linearClient.workflowStates({
+        filter: { team: { id: { eq: teamId } }, type: { eq: 'completed' } }
+    })).nodes[0];
 
-// (removed duplicate /태그목록 wrapper)
+    if (!doneState) throw new Error("Could not find a 'Done' state.");
 
-async function handleIssueListCommand({ command, ack, respond, client, modeOverride }: any) {
+    const undo: IssueChangeUndo = { issueId: issue.id, field: 'stateId', from: issue.stateId ?? null, to: doneState.id };
+    await linearClient.updateIssue(issueId, { stateId: doneState.id });
+
+    // Re-render the card (the "처리완료" button disappears for closed states)
+    await refreshIssueCard(issueId, card);
+
+    // Post a feedback message in thread
+    const mapping = ThreadMappingStore.getByIssueId(issueId) || ThreadMappingStore.get(issue.identifier);
+    const channelId = mapping?.channelId || card?.channelId;
+    const threadTs = mapping?.threadTs || threadTsHint || card?.cardTs;
+
+    if (channelId && threadTs) {
+        await client.chat.postMessage({
+            channel: channelId,
+            thread_ts: threadTs,
+            text: t(channelLocale(channelId), 'undo.doneNotice', { user: `<@${userId}>` })
+        });
+    }
+    return undo;
+}
+
+// Action Handler: 처리 완료 (Mark as Done)
+app.action('mark_done', async ({ action, ack, body, client }) => {
     await ack();
+    if (action.type !== 'button' || !action.value) return;
 
     try {
-        const raw = (command.text || '').trim();
-        const tokens = raw ? raw.split(/\s+/) : [];
+        const undo = await markIssueDone({
+            client,
+            issueId: action.value,
+            userId: body.user.id,
+            card: cardFromAction(body),
+            threadTsHint: (body as any).message?.thread_ts
+        });
+        await offerUndoForAction(client, body, t(await userLocale(client, body.user.id), 'undo.done'), undo);
+    } catch (error) {
+        console.error(error);
+    }
+});
 
-        let mode: 'state' | 'tag' = modeOverride || 'state';
-        let requestedTag: string | undefined;
+// -------------------------------------------------------------
+// FEATURE: Reaction workflows (reaction_added)
+// - ✅ on an issue card (or its thread root) -> 완료 처리, same as the "처리완료" button
+// - 👀 on an issue card -> assign to the reactor, same as "나에게 할당"
+// - 🎫 on any other message -> create an issue from it and post the card in its thread
+// - Emoji -> workflow mapping can be overridden per channel: `/이슈설정 리액션 <:이모지:> <완료|담당|생성|해제>`
+// - Slack app config: event `reaction_added`, scope reactions:read
+// -------------------------------------------------------------
+const REACTION_WORKFLOWS = ['done', 'assign', 'create'] as const;
+type ReactionWorkflow = typeof REACTION_WORKFLOWS[number];
 
-        const assigneeTokens: string[] = [];
+const reactionWorkflowLabel = (locale: Locale, workflow: ReactionWorkflow) => t(locale, `reaction.${workflow}`);
 
-        // token parse
-        for (let i = 0; i < tokens.length; i++) {
-            const t = tokens[i];
+const DEFAULT_REACTIONS: Record<string, ReactionWorkflow> = {
+    white_check_mark: 'done',
+    eyes: 'assign',
+    ticket: 'create'
+};
 
-            if (t === '태그' || t.toLowerCase() === 'tag') {
-                mode = 'tag';
-                const next = tokens[i + 1];
-                if (next && !next.startsWith('@') && !next.startsWith('<@')) {
-                    requestedTag = next;
-                }
-                continue;
-            }
+// Channel overrides win; 'off' disables a default emoji
+function reactionMappingFor(channelId: string): Record<string, ReactionWorkflow> {
+    const merged: Record<string, string> = { ...DEFAULT_REACTIONS, ...ThreadMappingStore.getChannelSettings(channelId).reactions };
+    return Object.fromEntries(Object.entries(merged)
+        .filter(([, workflow]) => (REACTION_WORKFLOWS as readonly string[]).includes(workflow))) as Record<string, ReactionWorkflow>;
+}
 
-            // assignee token candidates: @jun or <@U123> possibly comma-separated
-            if (t.startsWith('@') || t.startsWith('<@')) {
-                const parts = t.split(',').map((s: string) => s.trim()).filter(Boolean);
-                for (const p of parts) {
-                    if (p.startsWith('@') || p.startsWith('<@')) assigneeTokens.push(p);
-                }
-            }
-        }
+// Accepts the key ('done') or its name in any locale ('완료')
+function parseReactionWorkflow(value: string): ReactionWorkflow | undefined {
+    const lower = value.toLowerCase();
+    return REACTION_WORKFLOWS.find(w => w === lower || LOCALES.some(l => reactionWorkflowLabel(l, w).toLowerCase() === lower));
+}
 
-        // resolve slack user ids
-        const assigneeSlackIds: string[] = [];
-        if (assigneeTokens.length > 0) {
-            for (const tok of assigneeTokens) {
-                const id = await resolveSlackUserIdFromToken(client, tok);
-                if (id && !assigneeSlackIds.includes(id)) assigneeSlackIds.push(id);
-            }
+// ':white_check_mark:' / 'white_check_mark' / ':+1::skin-tone-2:' -> emoji name
+const normalizeEmojiName = (value: string) => value.replace(/::skin-tone-\d$/, '').replace(/^:|:$/g, '');
 
-            // If user explicitly specified assignee(s) but none could be resolved,
-            // do NOT silently fall back to requester.
-            if (assigneeSlackIds.length === 0) {
-                await respond({
-                    text: `❌ 지정한 사용자(${assigneeTokens.join(', ')})를 Slack에서 찾지 못했어요.\n가능하면 슬랙에서 사용자 자동완성으로 멘션을 선택해서 <@U...> 형태로 입력해줘. 예: /이슈목록 <@U12345>\n(또는 봇에 users:read 권한이 없으면 @handle 매칭이 실패할 수 있어요.)`,
-                    response_type: 'ephemeral'
-                });
-                return;
-            }
-        }
+function formatReactionSettings(channelId: string, locale: Locale) {
+    const entries = Object.entries(reactionMappingFor(channelId));
+    if (entries.length === 0) return t(locale, 'reaction.none');
+    return entries.map(([emoji, workflow]) => `:${emoji}: ${reactionWorkflowLabel(locale, workflow)}`).join(', ');
+}
 
-        if (assigneeSlackIds.length === 0) {
-            assigneeSlackIds.push(command.user_id);
-        }
+// /이슈설정 리액션 <:이모지:> <완료|담당|생성|해제>
+async function handleReactionSettingsCommand(channelId: string, userId: string, args: string[], respond: any, locale: Locale) {
+    const [emojiArg, workflowArg] = args;
+    const emoji = emojiArg ? normalizeEmojiName(emojiArg) : '';
+    const workflow = normalizeKeyword(workflowArg || '') === '해제' ? 'off' : parseReactionWorkflow(workflowArg || '');
 
-        // fetch issues for each assignee
-        const allIssues: any[] = [];
-        const failedAssignees: string[] = [];
+    if (!emoji || !workflow) {
+        await respond({
+            text: t(locale, 'reaction.usage', { workflows: REACTION_WORKFLOWS.map(w => reactionWorkflowLabel(locale, w)).join('|') }),
+            response_type: 'ephemeral'
+        });
+        return;
+    }
 
-        for (const slackId of assigneeSlackIds) {
-            const email = await getSlackEmailByUserId(client, slackId);
-            if (!email) {
-                failedAssignees.push(`<@${slackId}>`);
-                continue;
-            }
+    const reactions = { ...ThreadMappingStore.getChannelSettings(channelId).reactions };
+    if (workflow === 'off' && !(emoji in DEFAULT_REACTIONS)) {
+        delete reactions[emoji];
+    } else if (workflow !== 'off' && DEFAULT_REACTIONS[emoji] === workflow) {
+        delete reactions[emoji];
+    } else {
+        reactions[emoji] = workflow;
+    }
 
-            const linearUser = await getLinearUserByEmail(email);
-            if (!linearUser) {
-                failedAssignees.push(`<@${slackId}>`);
-                continue;
-            }
+    ThreadMappingStore.updateChannelSettings(channelId, { reactions: Object.keys(reactions).length > 0 ? reactions : undefined });
+    await respond({
+        text: t(locale, 'reaction.changed', { user: `<@${userId}>`, settings: formatReactionSettings(channelId, locale) }),
+        response_type: 'in_channel'
+    });
+}
 
-            const issuesRes = await fetchActiveIssuesByAssigneeId(linearUser.id);
-            const issues = issuesRes.nodes || [];
-            allIssues.push(...issues);
-        }
+// Guards against double-creating when several people add 🎫 at once
+const pendingReactionIssues = new Set<string>();
 
-        if (allIssues.length === 0) {
-            const who = assigneeSlackIds.map(id => `<@${id}>`).join(', ');
-            await respond({
-                text: `✅ ${who}에게 할당된 진행 중 이슈가 없습니다.`,
-                response_type: 'in_channel'
-            });
+async function createIssueFromReaction(client: any, channelId: string, messageTs: string, userId: string, botUserId?: string) {
+    const key = `${channelId}:${messageTs}`;
+    if (pendingReactionIssues.has(key)) return;
+    pendingReactionIssues.add(key);
+
+    const notify = (text: string) => client.chat.postEphemeral({ channel: channelId, user: userId, text });
+    const locale = await userLocale(client, userId);
+
+    try {
+        // replies() also returns thread replies, which history() does not
+        const res = await client.conversations.replies({ channel: channelId, ts: messageTs, limit: 1, inclusive: true });
+        const message = (res.messages || []).find((m: any) => m.ts === messageTs);
+        if (!message || (botUserId && message.user === botUserId)) return;
+
+        const threadTs = message.thread_ts || message.ts;
+        const existing = ThreadMappingStore.getByThread(channelId, threadTs);
+        if (existing) {
+            await notify(t(locale, 'link.threadAlreadyLinkedInfo', { identifier: existing.issueIdentifier }));
             return;
         }
 
-        if (failedAssignees.length > 0) {
-            // best-effort warning (ephemeral)
-            await respond({
-                text: `⚠️ 일부 사용자는 매칭에 실패했어요: ${failedAssignees.join(', ')}\n가능하면 슬랙에서 멘션 자동완성으로 선택(<@U...>)해서 다시 시도해줘.`,
-                response_type: 'ephemeral'
-            });
+        const { title, description } = await draftIssueFromMessage(client, channelId, message);
+        if (!title) {
+            await notify(t(locale, 'reaction.noText'));
+            return;
         }
 
-        const rows = await buildIssueRows(allIssues);
-
-        if (mode === 'tag') {
-            const grouped = groupRowsByTags(rows, requestedTag);
-            const keys = Object.keys(grouped);
-            if (keys.length === 0) {
-                await respond({ text: `✅ 태그 "${requestedTag}"에 해당하는 진행 중 이슈가 없습니다.`, response_type: 'in_channel' });
-                return;
-            }
-            await postGroupedListToThread({
-                client,
-                channelId: command.channel_id,
-                requesterId: command.user_id,
-                assigneeSlackIds,
-                mode,
-                requestedTag,
-                grouped,
-                totalIssues: allIssues.length
-            });
+        const { issue, error } = await createIssueInThread({ client, channelId, threadTs, userId, title, description, locale });
+        if (!issue) {
+            await notify(error!);
             return;
         }
 
-        const grouped = groupRowsByState(rows);
-        await postGroupedListToThread({
-            client,
-            channelId: command.channel_id,
-            requesterId: command.user_id,
-            assigneeSlackIds,
-            mode,
-            grouped,
-            totalIssues: allIssues.length
+        await client.chat.postMessage({
+            channel: channelId,
+            thread_ts: threadTs,
+            text: t(channelLocale(channelId), 'reaction.created', { user: `<@${userId}>`, identifier: issue.identifier })
         });
-
+        console.log(`[Debug] Created ${issue.identifier} from reaction in ${channelId}/${threadTs}`);
     } catch (error) {
         console.error(error);
-        let msg = (error as Error).message || String(error);
-
-        // Common Slack error when bot isn't in the channel where the slash command was used
-        if (msg.includes('channel_not_found')) {
-            msg = "봇이 이 채널에 초대되지 않았습니다. 채널에서 `/invite @봇이름`(Lenaer)로 초대한 뒤 다시 시도해주세요.";
-        }
-
-        await respond({ text: `❌ 오류가 발생했습니다: ${msg}`, response_type: 'ephemeral' });
+        await notify(formatSlackError(locale, error));
+    } finally {
+        pendingReactionIssues.delete(key);
     }
 }
 
-// /태그목록은 위 helper를 사용
-app.command('/태그목록', async ({ command, ack, respond, client }) => {
-    // Ensure modeOverride=tag, and allow optional @user + tag filter
-    return handleIssueListCommand({ command, ack, respond, client, modeOverride: 'tag' });
-});
-
-// Action Handler: 나에게 할당 버튼 (Assign to me - Button)
-app.action('assign_to_me_btn', async ({ action, ack, body, client }) => {
-    await ack();
-    if (action.type !== 'button' || !action.value) return;
+async function assignIssueFromReaction(client: any, mapping: ThreadMapping, issueId: string, userId: string, locale: Locale) {
+    const { linearUser, error } = await matchLinearUserForSlackUser(client, userId, locale);
+    if (!linearUser) {
+        await client.chat.postEphemeral({ channel: mapping.channelId, user: userId, text: error! });
+        return;
+    }
 
-    try {
-        const issueId = action.value;
-        const slackUser = await client.users.info({ user: body.user.id });
-        const userEmail = slackUser.user?.profile?.email;
+    const undo = await updateIssueWithUndo(issueId, 'assigneeId', linearUser.id);
+    await refreshIssueCard(issueId);
 
-        if (!userEmail) throw new Error("Slack email not found.");
+    await client.chat.postMessage({
+        channel: mapping.channelId,
+        thread_ts: mapping.threadTs,
+        text: t(channelLocale(mapping.channelId), 'reaction.assigned', { user: `<@${userId}>` })
+    });
+    return undo;
+}
 
-        const linearUser = await getLinearUserByEmail(userEmail);
-        if (!linearUser) throw new Error("Linear user not found.");
+app.event('reaction_added', async ({ event, client, context }) => {
+    const item: any = event.item;
+    if (item.type !== 'message' || event.user === context.botUserId) return;
 
-        await linearClient.updateIssue(issueId, { assigneeId: linearUser.id });
+    const workflow = reactionMappingFor(item.channel)[normalizeEmojiName(event.reaction)];
+    if (!workflow) return;
+    const locale = await userLocale(client, event.user);
 
-        const threadTs = (body as any).message?.thread_ts;
-        const channelId = (body as any).channel?.id;
+    try {
+        if (workflow === 'create') {
+            await createIssueFromReaction(client, item.channel, item.ts, event.user, context.botUserId);
+            return;
+        }
 
-        if (threadTs && channelId) {
-            const history = await client.conversations.replies({
-                channel: channelId,
-                ts: threadTs,
-                latest: threadTs,
-                limit: 1,
-                inclusive: true
+        // ✅ / 👀 only act on the issue card or the thread root it belongs to
+        const mapping = ThreadMappingStore.getByThread(item.channel, item.ts);
+        if (!mapping) return;
+
+        // Legacy mappings only have the identifier
+        const issueId = mapping.issueId || (await linearClient.issue(mapping.issueIdentifier)).id;
+        const undo = workflow === 'done'
+            ? await markIssueDone({ client, issueId, userId: event.user })
+            : await assignIssueFromReaction(client, mapping, issueId, event.user, locale);
+        if (undo) {
+            await offerUndo({
+                client,
+                channelId: mapping.channelId,
+                userId: event.user,
+                threadTs: mapping.threadTs,
+                text: t(locale, workflow === 'done' ? 'reaction.doneUndo' : 'reaction.assignUndo'),
+                undo
             });
-
-            const rootMessage = history.messages?.[0];
-            if (rootMessage && rootMessage.blocks) {
-                const updatedBlocks = [...(rootMessage.blocks as any[])];
-                if (updatedBlocks[1] && updatedBlocks[1].fields) {
-                    updatedBlocks[1].fields[0].text = `*담당자:*\n${linearUser.name}`;
-                }
-
-                await client.chat.update({
-                    channel: channelId,
-                    ts: threadTs,
-                    blocks: updatedBlocks as any,
-                    text: `✅ 담당자가 변경되었습니다: ${linearUser.name}`
-                });
-            }
         }
     } catch (error) {
         console.error(error);
+        await client.chat.postEphemeral({
+            channel: item.channel,
+            user: event.user,
+            text: t(locale, 'reaction.error', { error: describeSlackError(error, locale) })
+        }).catch(() => undefined);
     }
 });
 
-// Action Handler: 팀원에게 할당 (Assign to user - Dropdown)
-app.action('assign_to_user', async ({ action, ack, body, client }) => {
-    await ack();
-    if (action.type !== 'static_select' || !action.selected_option) return;
+// -------------------------------------------------------------
+// FEATURE: App Home (내 이슈 대시보드)
+// - Only the viewer sees it, unlike /이슈목록 which posts into the channel.
+// - Re-published on app_home_opened and after every action taken from the tab.
+// -------------------------------------------------------------
+// Home tabs allow 100 blocks in total; each issue takes 2 (summary + actions)
+const HOME_MAX_BLOCKS = 100;
+const HOME_RECENT_LIMIT = 10;
 
-    try {
-        const { issueId, userId } = JSON.parse(action.selected_option.value);
-        const userName = action.selected_option.text.text;
+type HomeMode = 'state' | 'tag';
 
-        await linearClient.updateIssue(issueId, { assigneeId: userId });
+async function threadPermalink(client: any, mapping: ThreadMapping | undefined): Promise<string | undefined> {
+    if (!mapping) return undefined;
+    try {
+        const res = await client.chat.getPermalink({ channel: mapping.channelId, message_ts: mapping.cardTs || mapping.threadTs });
+        return res.permalink;
+    } catch {
+        return undefined;
+    }
+}
 
-        // Update the root message to show the new assignee
-        // We need to find the root message TS which is the thread_ts of the current message
-        const threadTs = (body as any).message?.thread_ts;
-        const channelId = (body as any).channel?.id;
+// Workflow states per team, ordered like the Linear board
+async function loadStateOptions(teamIds: string[]): Promise<Map<string, any[]>> {
+    const entries = await Promise.all([...new Set(teamIds)].map(async teamId => {
+        const states = await linearClient.workflowStates({ filter: { team: { id: { eq: teamId } } } });
+        const options = [...states.nodes]
+            .sort((a, b) => a.position - b.position)
+            .map(state => plainOption(state.name, state.id));
+        return [teamId, options] as const;
+    }));
+    return new Map(entries);
+}
 
-        if (threadTs && channelId) {
-            // First, get the root message content
-            const history = await client.conversations.replies({
-                channel: channelId,
-                ts: threadTs,
-                latest: threadTs,
-                limit: 1,
-                inclusive: true
-            });
+// blockSuffix keeps block_ids unique when an issue is listed under several tags
+function buildHomeIssueBlocks(issue: ListedIssue, stateOptions: any[], locale: Locale, blockSuffix: string, permalink?: string) {
+    const details = [
+        issue.priority ? priorityLabel(locale, issue.priority) : '',
+        issue.dueDate ? `📅 ${issue.dueDate}` : ''
+    ].filter(Boolean).join('  ');
+
+    const stateSelect: any = {
+        type: 'static_select',
+        action_id: 'home_change_state',
+        placeholder: { type: 'plain_text', text: t(locale, 'card.changeState') },
+        options: stateOptions
+    };
+    const current = stateOptions.find(o => o.value === issue.state?.id);
+    if (current) stateSelect.initial_option = current;
 
-            const rootMessage = history.messages?.[0];
-            if (rootMessage && rootMessage.blocks) {
-                const updatedBlocks = [...rootMessage.blocks];
-                // 담당자 field is index 0
-                if (updatedBlocks[1] && (updatedBlocks[1] as any).fields) {
-                    (updatedBlocks[1] as any).fields[0].text = `*담당자:*\n${userName}`;
+    return [
+        {
+            type: 'section',
+            text: { type: 'mrkdwn', text: `*<${issue.url}|${issue.identifier}>* ${issue.title}${details ? `\n${details}` : ''}` },
+            ...(permalink ? {
+                accessory: {
+                    type: 'button',
+                    action_id: 'home_open_thread',
+                    text: { type: 'plain_text', text: t(locale, 'home.openThread') },
+                    url: permalink
+                }
+            } : {})
+        },
+        {
+            // The issue ID rides on the block so both selects can find it (home_issue:<issueId>:<suffix>)
+            type: 'actions',
+            block_id: `home_issue:${issue.id}:${blockSuffix}`,
+            elements: [
+                stateSelect,
+                {
+                    type: 'users_select',
+                    action_id: 'home_reassign',
+                    placeholder: { type: 'plain_text', text: t(locale, 'card.changeAssignee') }
                 }
+            ]
+        }
+    ];
+}
 
-                await client.chat.update({
-                    channel: channelId,
-                    ts: threadTs,
-                    blocks: updatedBlocks as any,
-                    text: `✅ 담당자가 변경되었습니다: ${userName}`
-                });
-            }
+async function buildMyIssuesBlocks(client: any, linearUserId: string, mode: HomeMode, locale: Locale, maxBlocks: number) {
+    const filter = buildIssueListFilter({ mode, assigneeTokens: [], descriptions: [] }, { assigneeIds: [linearUserId] });
+    const rows = buildIssueRows(sortIssues(await fetchIssuesForList(filter), 'priority'), locale);
+
+    if (rows.length === 0) {
+        return [{ type: 'section', text: { type: 'mrkdwn', text: t(locale, 'home.noIssues') } }];
+    }
+
+    const grouped = mode === 'tag' ? groupRowsByTags(rows) : groupRowsByState(rows);
+    const stateOptions = await loadStateOptions(rows.map(r => r.issue.team.id));
+
+    // One block stays free for the "N more" note
+    const budget = maxBlocks - 1;
+    const blocks: any[] = [];
+    // Tag mode lists an issue under each of its tags; count each issue once
+    const shownIds = new Set<string>();
+    const keys = sortGroupKeys(grouped);
+    for (let groupIndex = 0; groupIndex < keys.length; groupIndex++) {
+        const key = keys[groupIndex];
+        // Group header + 2 blocks per issue
+        const fit = Math.floor((budget - blocks.length - 1) / 2);
+        if (fit <= 0) break;
+        const groupRows = grouped[key].slice(0, fit);
+
+        blocks.push({
+            type: 'section',
+            text: { type: 'mrkdwn', text: mode === 'tag' ? `*📂 [${key}] (${grouped[key].length})*` : `*📂 ${key} (${grouped[key].length})*` }
+        });
+
+        const permalinks = await Promise.all(groupRows.map(r => threadPermalink(client, ThreadMappingStore.getByIssueId(r.issue.id))));
+        groupRows.forEach((r, i) => {
+            shownIds.add(r.issue.id);
+            blocks.push(...buildHomeIssueBlocks(r.issue, stateOptions.get(r.issue.team.id) || [], locale, String(groupIndex), permalinks[i]));
+        });
+    }
+
+    if (rows.length > shownIds.size) {
+        blocks.push({
+            type: 'context',
+            elements: [{ type: 'mrkdwn', text: t(locale, 'home.more', { count: rows.length - shownIds.size }) }]
+        });
+    }
+
+    return blocks;
+}
+
+// Issues the viewer created from Slack (/이슈!, shortcut, modal), newest first
+async function buildRecentCreatedBlocks(client: any, slackUserId: string, locale: Locale) {
+    const mappings = ThreadMappingStore.listCreatedBy(slackUserId, HOME_RECENT_LIMIT).filter(m => m.issueId);
+    if (mappings.length === 0) {
+        return [{ type: 'context', elements: [{ type: 'mrkdwn', text: t(locale, 'home.noRecent') }] }];
+    }
+
+    const issues = await fetchIssuesForList({ id: { in: mappings.map(m => m.issueId) } });
+    const byId = new Map(issues.map(issue => [issue.id, issue]));
+
+    const lines = await Promise.all(mappings.map(async m => {
+        const issue = byId.get(m.issueId!);
+        if (!issue) return null;
+        const permalink = await threadPermalink(client, m);
+        return `• <${issue.url}|${issue.identifier}> ${issue.title}  —  ${issue.state?.name || t(locale, 'common.unknown')}${permalink ? `  <${permalink}|${t(locale, 'home.thread')}>` : ''}`;
+    }));
+
+    return chunkLines(lines.filter((l): l is string => !!l)).map(text => ({ type: 'section', text: { type: 'mrkdwn', text } }));
+}
+
+async function publishAppHome(client: any, userId: string, mode: HomeMode = 'state', notice?: string, undo?: IssueChangeUndo) {
+    const locale = await userLocale(client, userId);
+    const modeButton = (value: HomeMode, text: string) => ({
+        type: 'button',
+        action_id: `home_group_${value}`,
+        text: { type: 'plain_text', text },
+        value,
+        ...(mode === value ? { style: 'primary' } : {})
+    });
+
+    const blocks: any[] = [
+        { type: 'header', text: { type: 'plain_text', text: t(locale, 'home.title') } },
+        {
+            type: 'actions',
+            block_id: 'home_controls',
+            elements: [
+                modeButton('state', t(locale, 'home.byState')),
+                modeButton('tag', t(locale, 'home.byTag')),
+                { type: 'button', action_id: 'home_refresh', text: { type: 'plain_text', text: t(locale, 'home.refresh') }, value: mode }
+            ]
         }
+    ];
+
+    if (notice) {
+        blocks.push({ type: 'context', elements: [{ type: 'mrkdwn', text: notice }] });
+    }
+    if (undo) {
+        blocks.push({ type: 'actions', elements: [undoButton(undo, locale)] });
+    }
+
+    const recentBlocks = [
+        { type: 'divider' },
+        { type: 'header', text: { type: 'plain_text', text: t(locale, 'home.recent') } },
+        ...await buildRecentCreatedBlocks(client, userId, locale)
+    ];
+
+    const { linearUser, error: userError } = await matchLinearUserForSlackUser(client, userId, locale);
+    if (linearUser) {
+        // My issues get whatever the fixed blocks leave of the 100-block limit
+        blocks.push(...await buildMyIssuesBlocks(client, linearUser.id, mode, locale, HOME_MAX_BLOCKS - blocks.length - recentBlocks.length));
+    } else {
+        blocks.push({ type: 'section', text: { type: 'mrkdwn', text: userError! } });
+    }
+
+    blocks.push(...recentBlocks);
+
+    await client.views.publish({
+        user_id: userId,
+        view: { type: 'home', private_metadata: mode, blocks }
+    });
+}
 
+const homeModeOf = (body: any): HomeMode => (body.view?.private_metadata === 'tag' ? 'tag' : 'state');
+
+app.event('app_home_opened', async ({ event, client }) => {
+    if (event.tab !== 'home') return;
+
+    try {
+        await publishAppHome(client, event.user, homeModeOf(event));
     } catch (error) {
         console.error(error);
     }
 });
 
-// Action Handler: 처리 완료 (Mark as Done)
-app.action('mark_done', async ({ action, ack, body, client }) => {
+app.action(/^home_group_(state|tag)$/, async ({ action, ack, body, client }) => {
     await ack();
-    if (action.type !== 'button' || !action.value) return;
+    if (action.type !== 'button') return;
 
     try {
-        const issueId = action.value;
-        const issue = await linearClient.issue(issueId);
-        const team = await issue.team;
-
-        if (!team) throw new Error("Team not found for issue.");
-
-        const states = await linearClient.workflowStates({
-            filter: {
-                team: { id: { eq: team.id } },
-                name: { in: ["Done", "Completed", "완료"] }
-            }
-        });
-
-        const doneState = states.nodes[0] || (await linearClient.workflowStates({
-            filter: { team: { id: { eq: team.id } }, type: { eq: 'completed' } }
-        })).nodes[0];
-
-        if (!doneState) throw new Error("Could not find a 'Done' state.");
+        await publishAppHome(client, body.user.id, action.value === 'tag' ? 'tag' : 'state');
+    } catch (error) {
+        console.error(error);
+    }
+});
 
-        await linearClient.updateIssue(issueId, { stateId: doneState.id });
+app.action('home_refresh', async ({ ack, body, client }) => {
+    await ack();
 
-        // Update the Thread message (to remove the button)
-        const threadBlocks: any = (body as any).message.blocks;
-        // Mark done button is now at index 5 (0: View in Linear, 1: Divider, 2: Who header, 3: Assign actions, 4: Done header, 5: Done actions)
-        if (threadBlocks[5] && threadBlocks[5].elements) {
-            threadBlocks[5].elements = threadBlocks[5].elements.filter((el: any) => el.action_id !== 'mark_done');
-        }
+    try {
+        await publishAppHome(client, body.user.id, homeModeOf(body));
+    } catch (error) {
+        console.error(error);
+    }
+});
 
-        const currentChannelId = (body as any).channel?.id;
-        const currentMessageTs = (body as any).message?.ts;
-        const threadTs = (body as any).message?.thread_ts;
+// URL buttons still send an action; only acknowledge it
+app.action('home_open_thread', async ({ ack }) => {
+    await ack();
+});
 
-        if (currentChannelId && currentMessageTs) {
-            await client.chat.update({
-                channel: currentChannelId,
-                ts: currentMessageTs,
-                blocks: threadBlocks,
-                text: "✅ 이슈가 완료 처리되었습니다."
-            });
+app.action('home_change_state', async ({ action, ack, body, client }) => {
+    await ack();
+    if (action.type !== 'static_select' || !action.selected_option) return;
 
-            // Post a feedback message in thread
-            await client.chat.postMessage({
-                channel: currentChannelId,
-                thread_ts: threadTs || currentMessageTs,
-                text: `✅ <@${body.user.id}>님이 이 이슈를 완료 처리했습니다.`
-            });
-        }
+    const issueId = action.block_id.split(':')[1];
+    const locale = await userLocale(client, body.user.id);
+    let notice: string;
+    let undo: IssueChangeUndo | undefined;
+    try {
+        undo = await updateIssueWithUndo(issueId, 'stateId', action.selected_option.value);
+        await refreshIssueCard(issueId);
+        notice = t(locale, 'undo.stateChanged', { state: action.selected_option.text.text });
+    } catch (error) {
+        console.error(error);
+        notice = t(locale, 'home.stateFailed', { error: (error as Error).message });
+    }
 
-        // Update the Root message (to change Status text)
-        if (threadTs && currentChannelId) {
-            const history = await client.conversations.replies({
-                channel: currentChannelId,
-                ts: threadTs,
-                latest: threadTs,
-                limit: 1,
-                inclusive: true
-            });
+    try {
+        await publishAppHome(client, body.user.id, homeModeOf(body), notice, undo);
+    } catch (error) {
+        console.error(error);
+    }
+});
 
-            const rootMessage = history.messages?.[0];
-            if (rootMessage && rootMessage.blocks) {
-                const updatedBlocks = [...(rootMessage.blocks as any[])];
-                // 상태 field is index 2
-                if (updatedBlocks[1] && updatedBlocks[1].fields) {
-                    updatedBlocks[1].fields[2].text = `*상태:*\n${doneState.name}`;
-                }
+app.action('home_reassign', async ({ action, ack, body, client }) => {
+    await ack();
+    if (action.type !== 'users_select' || !action.selected_user) return;
 
-                await client.chat.update({
-                    channel: currentChannelId,
-                    ts: threadTs,
-                    blocks: updatedBlocks as any,
-                    text: `✅ 이슈 완료: ${doneState.name}`
-                });
-            }
+    const issueId = action.block_id.split(':')[1];
+    const locale = await userLocale(client, body.user.id);
+    let notice: string;
+    let undo: IssueChangeUndo | undefined;
+    try {
+        const { linearUser, error: userError } = await matchLinearUserForSlackUser(client, action.selected_user, locale);
+        if (linearUser) {
+            undo = await updateIssueWithUndo(issueId, 'assigneeId', linearUser.id);
+            await refreshIssueCard(issueId);
+            notice = t(locale, 'home.assigneeChanged', { user: `<@${action.selected_user}>` });
+        } else {
+            notice = userError!;
         }
+    } catch (error) {
+        console.error(error);
+        notice = t(locale, 'home.assigneeFailed', { error: (error as Error).message });
+    }
 
+    try {
+        await publishAppHome(client, body.user.id, homeModeOf(body), notice, undo);
     } catch (error) {
         console.error(error);
     }
 });
 
 
-
 (async () => {
     const port = process.env.PORT || 3000;
 
@@ -1118,4 +5064,7 @@ app.action('mark_done', async ({ action, ack, body, client }) => {
     // But we need the http server for webhooks.
     await receiver.start(Number(port));
     console.log(`⚡️ Webhook Receiver is running on port ${port}!`);
+
+    // Daily digests and other timed jobs
+    startScheduler();
 })();
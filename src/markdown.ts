@@ -0,0 +1,138 @@
+// -------------------------------------------------------------
+// Slack mrkdwn <-> Linear markdown
+// - Used by the Slack -> Linear comment sync and the Linear -> Slack webhook relay.
+// - Code spans/blocks are passed through untouched.
+// - Mentions are resolved through the caller (email-based user matching lives in index.ts).
+// -------------------------------------------------------------
+
+export interface MentionResolver {
+    // Slack user ID -> Linear profile URL (Linear turns it into a real, notifying mention), or null if unmatched
+    linearProfileUrlForSlackUser(slackUserId: string): Promise<string | null>;
+    // Linear display name -> Slack user ID, or null if unmatched
+    slackUserForLinearName(linearName: string): Promise<string | null>;
+}
+
+type Segment = { code: boolean; text: string };
+
+// Fenced blocks first, then inline code
+const CODE_REGEX = /```[\s\S]*?```|`[^`\n]+`/g;
+
+function splitCode(input: string): Segment[] {
+    const segments: Segment[] = [];
+    let last = 0;
+    for (const m of input.matchAll(CODE_REGEX)) {
+        if (m.index! > last) segments.push({ code: false, text: input.slice(last, m.index) });
+        segments.push({ code: true, text: m[0] });
+        last = m.index! + m[0].length;
+    }
+    if (last < input.length) segments.push({ code: false, text: input.slice(last) });
+    return segments;
+}
+
+async function replaceAsync(input: string, regex: RegExp, replacer: (...groups: string[]) => Promise<string>) {
+    const matches = [...input.matchAll(regex)];
+    const replacements = await Promise.all(matches.map(m => replacer(...(m as unknown as string[]))));
+
+    let out = '';
+    let last = 0;
+    matches.forEach((m, i) => {
+        out += input.slice(last, m.index) + replacements[i];
+        last = m.index! + m[0].length;
+    });
+    return out + input.slice(last);
+}
+
+const decodeSlackEntities = (s: string) => s.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+const escapeSlackEntities = (s: string) => s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// -------------------------------------------------------------
+// Slack -> Linear
+// -------------------------------------------------------------
+async function slackSegmentToMarkdown(text: string, resolver: MentionResolver): Promise<string> {
+    // <...> tokens: user mentions, channels, special mentions, links
+    let out = await replaceAsync(text, /<([^<>\n]+)>/g, async (_m, inner) => {
+        const [target, label] = inner.split('|', 2);
+
+        if (target.startsWith('@')) {
+            const profileUrl = await resolver.linearProfileUrlForSlackUser(target.slice(1));
+            return profileUrl || `@${label || target.slice(1)}`;
+        }
+        if (target.startsWith('#')) return `#${label || target.slice(1)}`;
+        if (target.startsWith('!subteam^')) return label || '@team';
+        if (target.startsWith('!')) return `@${label || target.slice(1)}`;
+        if (target.startsWith('mailto:')) return label || target.slice('mailto:'.length);
+
+        const url = decodeSlackEntities(target);
+        return label && label !== target ? `[${decodeSlackEntities(label)}](${url})` : url;
+    });
+
+    out = decodeSlackEntities(out);
+
+    return out
+        // *bold* -> **bold** (no space just inside the markers, so "x * y * z" stays as is)
+        .replace(/(^|[\s(])\*(\S(?:[^*\n]*\S)?)\*(?=$|[\s).,!?:;])/gm, '$1**$2**')
+        // ~strike~ -> ~~strike~~
+        .replace(/(^|[\s(])~(\S(?:[^~\n]*\S)?)~(?=$|[\s).,!?:;])/gm, '$1~~$2~~')
+        // "• item" -> "- item"
+        .replace(/^(\s*)[•◦▪]\s+/gm, '$1- ');
+}
+
+export async function slackToLinearMarkdown(text: string, resolver: MentionResolver): Promise<string> {
+    const segments = splitCode(text || '');
+    const converted = await Promise.all(segments.map(seg => seg.code
+        ? decodeSlackEntities(seg.text)
+        : slackSegmentToMarkdown(seg.text, resolver)));
+    return converted.join('');
+}
+
+// -------------------------------------------------------------
+// Linear -> Slack
+// -------------------------------------------------------------
+// Linear serializes mentions either as "@name" or as a profile link
+const LINEAR_PROFILE_LINK_REGEX = /\[[^\]]*\]\(https:\/\/linear\.app\/[^/\s)]+\/profiles\/([^/\s)]+)\)|https:\/\/linear\.app\/[^/\s)]+\/profiles\/([^/\s)]+)/g;
+const LINEAR_MENTION_REGEX = /(^|[\s(])@([\w.\-]+)/g;
+
+async function markdownSegmentToSlack(text: string, resolver: MentionResolver): Promise<string> {
+    const mention = async (name: string) => {
+        const slackUserId = await resolver.slackUserForLinearName(name);
+        return slackUserId ? `<@${slackUserId}>` : `@${name}`;
+    };
+
+    let out = escapeSlackEntities(text);
+
+    out = await replaceAsync(out, LINEAR_PROFILE_LINK_REGEX, async (_m, linked, bare) => mention(decodeURIComponent(linked || bare)));
+    // "@bob." / "@bob-": trailing punctuation isn't part of the name
+    out = await replaceAsync(out, LINEAR_MENTION_REGEX, async (match, prefix, captured) => {
+        const name = captured.replace(/[.\-]+$/, '');
+        return name ? `${prefix}${await mention(name)}${captured.slice(name.length)}` : match;
+    });
+
+    return out
+        // [text](url) -> <url|text>
+        .replace(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g, '<$2|$1>')
+        // *italic* -> _italic_ (before bold, so ** is left alone here)
+        .replace(/(?<![*\w])\*(?!\*)([^*\n]+?)(?<!\*)\*(?![*\w])/g, '_$1_')
+        // ***bold italic*** -> *_bold italic_* (after italics so the result isn't re-read, before bold so it isn't split)
+        .replace(/(?<![*\w])\*\*\*(?!\*)([^*\n]+?)\*\*\*(?![*\w])/g, '*_$1_*')
+        // **bold** / __bold__ -> *bold*
+        .replace(/\*\*([^*\n]+?)\*\*/g, '*$1*')
+        .replace(/(?<![_\w])__(?!_)([^_\n]+?)__(?![_\w])/g, '*$1*')
+        // ~~strike~~ -> ~strike~
+        .replace(/~~([^~\n]+?)~~/g, '~$1~')
+        // # Heading -> *Heading* (after emphasis, so it isn't turned into italics)
+        .replace(/^#{1,6}\s+(.+)$/gm, '*$1*')
+        // "- item" / "* item" -> "• item"
+        .replace(/^(\s*)[-*+]\s+(?!\[)/gm, '$1• ')
+        // task lists
+        .replace(/^(\s*)[-*+]\s+\[[xX]\]\s+/gm, '$1☑️ ')
+        .replace(/^(\s*)[-*+]\s+\[ \]\s+/gm, '$1⬜ ');
+}
+
+export async function linearToSlackMrkdwn(markdown: string, resolver: MentionResolver): Promise<string> {
+    const segments = splitCode(markdown || '');
+    const converted = await Promise.all(segments.map(seg => seg.code
+        // Slack doesn't understand ```lang
+        ? escapeSlackEntities(seg.text.replace(/^```[\w+\-]*\n/, '```\n'))
+        : markdownSegmentToSlack(seg.text, resolver)));
+    return converted.join('');
+}
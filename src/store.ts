@@ -0,0 +1,518 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// -------------------------------------------------------------
+// Mapping Store
+// - Every issue <-> Slack thread lookup in the bot goes through here.
+// - Backends: SQLite (default, durable + safe across processes) or a JSON file (fallback).
+// - Point DATA_DIR at a persistent volume (e.g. Railway volume), otherwise redeploys wipe it.
+// -------------------------------------------------------------
+
+export interface ThreadMapping {
+    issueIdentifier: string;
+    issueId?: string;
+    channelId: string;
+    threadTs: string;
+    // ts of the root issue card (same as threadTs for cards posted by /이슈!)
+    cardTs?: string;
+    // Slack user who created the issue from Slack (/이슈!, shortcut, modal)
+    createdBy?: string;
+    // Reminder bookkeeping: last nudge posted into the thread, and snooze end (ISO timestamps)
+    remindedAt?: string;
+    snoozedUntil?: string;
+    createdAt: string;
+}
+
+// Slack message <-> Linear comment, so edits and deletions can follow the copy on the other side
+export interface CommentMapping {
+    linearCommentId: string;
+    issueId: string;
+    channelId: string;
+    slackTs: string;
+    // Side the comment was written on; edits/deletions only flow from that side
+    origin: 'slack' | 'linear';
+    createdAt: string;
+}
+
+export type CommentMappingInput = Omit<CommentMapping, 'createdAt'>;
+
+// Weekday standup digest (/이슈요약)
+export interface DigestSubscription {
+    // Local time 'HH:MM' in timeZone
+    time: string;
+    // IANA zone, e.g. 'Asia/Seoul'
+    timeZone: string;
+    // Local date ('YYYY-MM-DD') of the last digest, so restarts don't post twice
+    lastSentDate?: string;
+}
+
+// Due-date / staleness nudges posted into issue threads (/이슈설정 리마인더)
+export interface ReminderSettings {
+    enabled: boolean;
+    // Nudge when the due date is within this many days (0 = only when overdue)
+    dueSoonDays: number;
+    // Nudge when the state hasn't changed for this many days (0 = off)
+    staleDays: number;
+}
+
+// Cycle progress report posted before the current cycle ends (/빌드현황 예약)
+export interface BuildReportSchedule {
+    // Days before the cycle's last day (0 = on the last day)
+    daysBeforeEnd: number;
+    // Local time 'HH:MM' in timeZone
+    time: string;
+    timeZone: string;
+    // Cycle the last scheduled report was posted for
+    lastSentCycleId?: string;
+}
+
+// Per-channel configuration, managed from Slack (/이슈설정, /이슈요약, /빌드현황)
+export interface ChannelSettings {
+    // Linear team key (e.g. 'APP') issues from this channel are filed into
+    teamKey?: string;
+    // Linear change kinds (e.g. 'priority', 'labels') that are NOT relayed into this channel's threads
+    mutedEvents?: string[];
+    digest?: DigestSubscription;
+    reminders?: ReminderSettings;
+    buildReport?: BuildReportSchedule;
+    // Language of the bot's channel messages (cards, relays, digests): 'ko' | 'en'
+    locale?: string;
+    // Emoji name (without colons) -> reaction workflow ('done', 'assign', 'create', or 'off' to disable a default)
+    reactions?: Record<string, string>;
+}
+
+// Explicit Slack user <-> Linear user link (/리니어연결). Users without one are matched by email.
+// A Linear user is linked to at most one Slack user.
+export interface UserLink {
+    slackUserId: string;
+    linearUserId: string;
+    // Slack user who made the link (the user themselves, or an admin)
+    linkedBy: string;
+    createdAt: string;
+}
+
+export type UserLinkInput = Omit<UserLink, 'createdAt'>;
+
+// Per-user preferences (/언어)
+export interface UserSettings {
+    // 'ko' | 'en'; unset = follow the Slack locale
+    locale?: string;
+}
+
+export type ThreadMappingInput = Omit<ThreadMapping, 'createdAt'> & { createdAt?: string };
+
+export interface MappingStore {
+    readonly backend: 'sqlite' | 'json';
+    get(issueIdentifier: string): ThreadMapping | undefined;
+    getByIssueId(issueId: string): ThreadMapping | undefined;
+    getByThread(channelId: string, threadTs: string): ThreadMapping | undefined;
+    // Newest first
+    listCreatedBy(slackUserId: string, limit: number): ThreadMapping[];
+    listMappings(): ThreadMapping[];
+    // Upsert. Optional columns that are omitted keep their stored value.
+    set(mapping: ThreadMappingInput): ThreadMapping;
+    getComment(linearCommentId: string): CommentMapping | undefined;
+    getCommentBySlackTs(channelId: string, slackTs: string): CommentMapping | undefined;
+    setComment(mapping: CommentMappingInput): CommentMapping;
+    deleteComment(linearCommentId: string): void;
+    getChannelSettings(channelId: string): ChannelSettings;
+    listChannelSettings(): { channelId: string; settings: ChannelSettings }[];
+    // Shallow merge; keys set to undefined are removed
+    updateChannelSettings(channelId: string, patch: Partial<ChannelSettings>): ChannelSettings;
+    getUserLink(slackUserId: string): UserLink | undefined;
+    getUserLinkByLinearUser(linearUserId: string): UserLink | undefined;
+    // Replaces any existing link of the Slack user or the Linear user
+    setUserLink(link: UserLinkInput): UserLink;
+    deleteUserLink(slackUserId: string): void;
+    getUserSettings(slackUserId: string): UserSettings;
+    // Shallow merge; keys set to undefined are removed
+    updateUserSettings(slackUserId: string, patch: Partial<UserSettings>): UserSettings;
+    close(): void;
+}
+
+// Legacy thread_map.json shape: { [issueIdentifier]: { channelId, threadTs } }
+interface LegacyThreadMap {
+    [issueIdentifier: string]: {
+        channelId: string;
+        threadTs: string;
+    };
+}
+
+const mergeSettings = <T extends object>(existing: T, patch: Partial<T>): T => {
+    const merged: any = { ...existing, ...patch };
+    for (const key of Object.keys(merged)) {
+        if (merged[key] === undefined) delete merged[key];
+    }
+    return merged;
+};
+
+// Optional fields missing from the input keep their stored value; passing them as undefined clears them
+const pick = <K extends keyof ThreadMappingInput>(input: ThreadMappingInput, existing: ThreadMapping | undefined, key: K) =>
+    key in input ? input[key] : existing?.[key];
+
+const mergeMapping = (existing: ThreadMapping | undefined, input: ThreadMappingInput): ThreadMapping => ({
+    issueIdentifier: input.issueIdentifier,
+    issueId: pick(input, existing, 'issueId'),
+    channelId: input.channelId,
+    threadTs: input.threadTs,
+    cardTs: pick(input, existing, 'cardTs'),
+    createdBy: pick(input, existing, 'createdBy'),
+    remindedAt: pick(input, existing, 'remindedAt'),
+    snoozedUntil: pick(input, existing, 'snoozedUntil'),
+    createdAt: existing?.createdAt ?? input.createdAt ?? new Date().toISOString()
+});
+
+// -------------------------------------------------------------
+// Backend: SQLite
+// -------------------------------------------------------------
+// Append-only: each entry upgrades the schema by one version (tracked in PRAGMA user_version).
+const SQLITE_MIGRATIONS: string[] = [
+    `CREATE TABLE thread_mappings (
+        issue_identifier TEXT PRIMARY KEY,
+        issue_id TEXT,
+        channel_id TEXT NOT NULL,
+        thread_ts TEXT NOT NULL,
+        card_ts TEXT,
+        created_at TEXT NOT NULL
+    );
+    CREATE INDEX idx_thread_mappings_thread ON thread_mappings (channel_id, thread_ts);
+    CREATE INDEX idx_thread_mappings_issue_id ON thread_mappings (issue_id);`,
+    `CREATE TABLE channel_settings (
+        channel_id TEXT PRIMARY KEY,
+        settings TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+    );`,
+    `CREATE TABLE comment_mappings (
+        linear_comment_id TEXT PRIMARY KEY,
+        issue_id TEXT NOT NULL,
+        channel_id TEXT NOT NULL,
+        slack_ts TEXT NOT NULL,
+        origin TEXT NOT NULL,
+        created_at TEXT NOT NULL
+    );
+    CREATE UNIQUE INDEX idx_comment_mappings_slack ON comment_mappings (channel_id, slack_ts);`,
+    `ALTER TABLE thread_mappings ADD COLUMN created_by TEXT;
+    CREATE INDEX idx_thread_mappings_created_by ON thread_mappings (created_by, created_at);`,
+    `ALTER TABLE thread_mappings ADD COLUMN reminded_at TEXT;
+    ALTER TABLE thread_mappings ADD COLUMN snoozed_until TEXT;`,
+    `CREATE TABLE user_links (
+        slack_user_id TEXT PRIMARY KEY,
+        linear_user_id TEXT NOT NULL,
+        linked_by TEXT NOT NULL,
+        created_at TEXT NOT NULL
+    );
+    CREATE UNIQUE INDEX idx_user_links_linear ON user_links (linear_user_id);`,
+    `CREATE TABLE user_settings (
+        slack_user_id TEXT PRIMARY KEY,
+        settings TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+    );`
+];
+
+function migrateSqlite(db: Database.Database) {
+    const current = db.pragma('user_version', { simple: true }) as number;
+    for (let version = current; version < SQLITE_MIGRATIONS.length; version++) {
+        db.transaction(() => {
+            db.exec(SQLITE_MIGRATIONS[version]);
+            db.pragma(`user_version = ${version + 1}`);
+        })();
+        console.log(`[Store] Migrated SQLite schema to v${version + 1}`);
+    }
+}
+
+const rowToComment = (row: any): CommentMapping | undefined => row ? {
+    linearCommentId: row.linear_comment_id,
+    issueId: row.issue_id,
+    channelId: row.channel_id,
+    slackTs: row.slack_ts,
+    origin: row.origin,
+    createdAt: row.created_at
+} : undefined;
+
+const rowToUserLink = (row: any): UserLink | undefined => row ? {
+    slackUserId: row.slack_user_id,
+    linearUserId: row.linear_user_id,
+    linkedBy: row.linked_by,
+    createdAt: row.created_at
+} : undefined;
+
+const rowToMapping = (row: any): ThreadMapping | undefined => row ? {
+    issueIdentifier: row.issue_identifier,
+    issueId: row.issue_id || undefined,
+    channelId: row.channel_id,
+    threadTs: row.thread_ts,
+    cardTs: row.card_ts || undefined,
+    createdBy: row.created_by || undefined,
+    remindedAt: row.reminded_at || undefined,
+    snoozedUntil: row.snoozed_until || undefined,
+    createdAt: row.created_at
+} : undefined;
+
+function createSqliteStore(file: string): MappingStore {
+    const db = new Database(file);
+    db.pragma('journal_mode = WAL');
+    db.pragma('busy_timeout = 5000');
+    migrateSqlite(db);
+
+    const selectByIdentifier = db.prepare('SELECT * FROM thread_mappings WHERE issue_identifier = ?');
+    const selectByIssueId = db.prepare('SELECT * FROM thread_mappings WHERE issue_id = ? LIMIT 1');
+    const selectByThread = db.prepare('SELECT * FROM thread_mappings WHERE channel_id = ? AND (thread_ts = ? OR card_ts = ?) LIMIT 1');
+    const selectByCreator = db.prepare('SELECT * FROM thread_mappings WHERE created_by = ? ORDER BY created_at DESC LIMIT ?');
+    const selectAll = db.prepare('SELECT * FROM thread_mappings');
+    const upsert = db.prepare(`
+        INSERT INTO thread_mappings (issue_identifier, issue_id, channel_id, thread_ts, card_ts, created_by, reminded_at, snoozed_until, created_at)
+        VALUES (@issueIdentifier, @issueId, @channelId, @threadTs, @cardTs, @createdBy, @remindedAt, @snoozedUntil, @createdAt)
+        ON CONFLICT (issue_identifier) DO UPDATE SET
+            issue_id = excluded.issue_id,
+            channel_id = excluded.channel_id,
+            thread_ts = excluded.thread_ts,
+            card_ts = excluded.card_ts,
+            created_by = excluded.created_by,
+            reminded_at = excluded.reminded_at,
+            snoozed_until = excluded.snoozed_until
+    `);
+
+    const selectComment = db.prepare('SELECT * FROM comment_mappings WHERE linear_comment_id = ?');
+    const selectCommentBySlackTs = db.prepare('SELECT * FROM comment_mappings WHERE channel_id = ? AND slack_ts = ?');
+    const upsertComment = db.prepare(`
+        INSERT OR REPLACE INTO comment_mappings (linear_comment_id, issue_id, channel_id, slack_ts, origin, created_at)
+        VALUES (@linearCommentId, @issueId, @channelId, @slackTs, @origin, @createdAt)
+    `);
+    const removeComment = db.prepare('DELETE FROM comment_mappings WHERE linear_comment_id = ?');
+
+    const selectSettings = db.prepare('SELECT settings FROM channel_settings WHERE channel_id = ?');
+    const selectAllSettings = db.prepare('SELECT channel_id, settings FROM channel_settings');
+    const upsertSettings = db.prepare(`
+        INSERT INTO channel_settings (channel_id, settings, updated_at) VALUES (?, ?, ?)
+        ON CONFLICT (channel_id) DO UPDATE SET settings = excluded.settings, updated_at = excluded.updated_at
+    `);
+    const getChannelSettings = (channelId: string): ChannelSettings => {
+        const row: any = selectSettings.get(channelId);
+        return row ? JSON.parse(row.settings) : {};
+    };
+
+    const selectUserLink = db.prepare('SELECT * FROM user_links WHERE slack_user_id = ?');
+    const selectUserLinkByLinear = db.prepare('SELECT * FROM user_links WHERE linear_user_id = ?');
+    // REPLACE also drops a row that conflicts on linear_user_id
+    const upsertUserLink = db.prepare(`
+        INSERT OR REPLACE INTO user_links (slack_user_id, linear_user_id, linked_by, created_at)
+        VALUES (@slackUserId, @linearUserId, @linkedBy, @createdAt)
+    `);
+    const removeUserLink = db.prepare('DELETE FROM user_links WHERE slack_user_id = ?');
+
+    const selectUserSettings = db.prepare('SELECT settings FROM user_settings WHERE slack_user_id = ?');
+    const upsertUserSettings = db.prepare(`
+        INSERT INTO user_settings (slack_user_id, settings, updated_at) VALUES (?, ?, ?)
+        ON CONFLICT (slack_user_id) DO UPDATE SET settings = excluded.settings, updated_at = excluded.updated_at
+    `);
+    const getUserSettings = (slackUserId: string): UserSettings => {
+        const row: any = selectUserSettings.get(slackUserId);
+        return row ? JSON.parse(row.settings) : {};
+    };
+
+    return {
+        backend: 'sqlite',
+        get: (issueIdentifier) => rowToMapping(selectByIdentifier.get(issueIdentifier)),
+        getByIssueId: (issueId) => rowToMapping(selectByIssueId.get(issueId)),
+        getByThread: (channelId, threadTs) => rowToMapping(selectByThread.get(channelId, threadTs, threadTs)),
+        listCreatedBy: (slackUserId, limit) => selectByCreator.all(slackUserId, limit).map(row => rowToMapping(row)!),
+        listMappings: () => selectAll.all().map(row => rowToMapping(row)!),
+        set: (input) => db.transaction(() => {
+            // The merged record is written as a whole, so cleared fields become NULL (same as the JSON store)
+            const mapping = mergeMapping(rowToMapping(selectByIdentifier.get(input.issueIdentifier)), input);
+            upsert.run({
+                ...mapping,
+                issueId: mapping.issueId ?? null,
+                cardTs: mapping.cardTs ?? null,
+                createdBy: mapping.createdBy ?? null,
+                remindedAt: mapping.remindedAt ?? null,
+                snoozedUntil: mapping.snoozedUntil ?? null
+            });
+            return mapping;
+        })(),
+        getComment: (linearCommentId) => rowToComment(selectComment.get(linearCommentId)),
+        getCommentBySlackTs: (channelId, slackTs) => rowToComment(selectCommentBySlackTs.get(channelId, slackTs)),
+        setComment: (input) => {
+            const mapping = { ...input, createdAt: new Date().toISOString() };
+            upsertComment.run(mapping);
+            return mapping;
+        },
+        deleteComment: (linearCommentId) => {
+            removeComment.run(linearCommentId);
+        },
+        getChannelSettings,
+        listChannelSettings: () => selectAllSettings.all().map((row: any) => ({ channelId: row.channel_id, settings: JSON.parse(row.settings) })),
+        updateChannelSettings: (channelId, patch) => db.transaction(() => {
+            const settings = mergeSettings(getChannelSettings(channelId), patch);
+            upsertSettings.run(channelId, JSON.stringify(settings), new Date().toISOString());
+            return settings;
+        })(),
+        getUserLink: (slackUserId) => rowToUserLink(selectUserLink.get(slackUserId)),
+        getUserLinkByLinearUser: (linearUserId) => rowToUserLink(selectUserLinkByLinear.get(linearUserId)),
+        setUserLink: (input) => {
+            const link = { ...input, createdAt: new Date().toISOString() };
+            upsertUserLink.run(link);
+            return link;
+        },
+        deleteUserLink: (slackUserId) => {
+            removeUserLink.run(slackUserId);
+        },
+        getUserSettings,
+        updateUserSettings: (slackUserId, patch) => db.transaction(() => {
+            const settings = mergeSettings(getUserSettings(slackUserId), patch);
+            upsertUserSettings.run(slackUserId, JSON.stringify(settings), new Date().toISOString());
+            return settings;
+        })(),
+        close: () => db.close()
+    };
+}
+
+// -------------------------------------------------------------
+// Backend: JSON file (fallback)
+// - Kept in memory, flushed with write-to-temp + rename so a crash never leaves a torn file.
+// - Single process only; use SQLite if more than one instance shares DATA_DIR.
+// -------------------------------------------------------------
+interface JsonStoreData {
+    threads: { [issueIdentifier: string]: ThreadMapping };
+    comments: { [linearCommentId: string]: CommentMapping };
+    channels: { [channelId: string]: ChannelSettings };
+    users: { [slackUserId: string]: UserLink };
+    userSettings: { [slackUserId: string]: UserSettings };
+}
+
+function writeFileAtomic(file: string, contents: string) {
+    const tmp = `${file}.${process.pid}.tmp`;
+    const fd = fs.openSync(tmp, 'w');
+    try {
+        fs.writeSync(fd, contents);
+        fs.fsyncSync(fd);
+    } finally {
+        fs.closeSync(fd);
+    }
+    fs.renameSync(tmp, file);
+}
+
+function createJsonStore(file: string): MappingStore {
+    let data: JsonStoreData = { threads: {}, comments: {}, channels: {}, users: {}, userSettings: {} };
+    if (fs.existsSync(file)) {
+        data = { ...data, ...JSON.parse(fs.readFileSync(file, 'utf-8')) };
+    }
+
+    const save = () => writeFileAtomic(file, JSON.stringify(data, null, 2));
+    const all = () => Object.values(data.threads);
+
+    return {
+        backend: 'json',
+        get: (issueIdentifier) => data.threads[issueIdentifier],
+        getByIssueId: (issueId) => all().find(m => m.issueId === issueId),
+        getByThread: (channelId, threadTs) => all().find(m => m.channelId === channelId && (m.threadTs === threadTs || m.cardTs === threadTs)),
+        listCreatedBy: (slackUserId, limit) => all()
+            .filter(m => m.createdBy === slackUserId)
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+            .slice(0, limit),
+        listMappings: () => all(),
+        set: (input) => {
+            const mapping = mergeMapping(data.threads[input.issueIdentifier], input);
+            data.threads[input.issueIdentifier] = mapping;
+            save();
+            return mapping;
+        },
+        getComment: (linearCommentId) => data.comments[linearCommentId],
+        getCommentBySlackTs: (channelId, slackTs) => Object.values(data.comments).find(c => c.channelId === channelId && c.slackTs === slackTs),
+        setComment: (input) => {
+            const mapping = { ...input, createdAt: new Date().toISOString() };
+            data.comments[input.linearCommentId] = mapping;
+            save();
+            return mapping;
+        },
+        deleteComment: (linearCommentId) => {
+            delete data.comments[linearCommentId];
+            save();
+        },
+        getChannelSettings: (channelId) => ({ ...data.channels[channelId] }),
+        listChannelSettings: () => Object.entries(data.channels).map(([channelId, settings]) => ({ channelId, settings: { ...settings } })),
+        updateChannelSettings: (channelId, patch) => {
+            const settings = mergeSettings(data.channels[channelId] || {}, patch);
+            data.channels[channelId] = settings;
+            save();
+            return { ...settings };
+        },
+        getUserLink: (slackUserId) => data.users[slackUserId],
+        getUserLinkByLinearUser: (linearUserId) => Object.values(data.users).find(l => l.linearUserId === linearUserId),
+        setUserLink: (input) => {
+            const link = { ...input, createdAt: new Date().toISOString() };
+            for (const existing of Object.values(data.users)) {
+                if (existing.linearUserId === link.linearUserId) delete data.users[existing.slackUserId];
+            }
+            data.users[link.slackUserId] = link;
+            save();
+            return link;
+        },
+        deleteUserLink: (slackUserId) => {
+            delete data.users[slackUserId];
+            save();
+        },
+        getUserSettings: (slackUserId) => ({ ...data.userSettings[slackUserId] }),
+        updateUserSettings: (slackUserId, patch) => {
+            const settings = mergeSettings(data.userSettings[slackUserId] || {}, patch);
+            data.userSettings[slackUserId] = settings;
+            save();
+            return { ...settings };
+        },
+        close: () => { }
+    };
+}
+
+// -------------------------------------------------------------
+// Migration: import legacy thread_map.json
+// Idempotent - existing rows win, so it is safe to run on every boot.
+// -------------------------------------------------------------
+function importLegacyThreadMap(store: MappingStore, legacyFile: string) {
+    if (!fs.existsSync(legacyFile)) return;
+
+    let legacy: LegacyThreadMap;
+    try {
+        legacy = JSON.parse(fs.readFileSync(legacyFile, 'utf-8'));
+    } catch (e) {
+        console.error(`[Store] Failed to read legacy thread map ${legacyFile}`, e);
+        return;
+    }
+
+    let imported = 0;
+    for (const [issueIdentifier, entry] of Object.entries(legacy)) {
+        if (!entry?.channelId || !entry?.threadTs) continue;
+        if (store.get(issueIdentifier)) continue;
+        store.set({ issueIdentifier, channelId: entry.channelId, threadTs: entry.threadTs, cardTs: entry.threadTs });
+        imported++;
+    }
+
+    if (imported > 0) {
+        console.log(`[Store] Imported ${imported} mapping(s) from legacy ${legacyFile}`);
+    }
+}
+
+export function openMappingStore(options: { dataDir: string; backend?: string; legacyFile?: string }): MappingStore {
+    const { dataDir, legacyFile } = options;
+    const backend = (options.backend || 'sqlite').toLowerCase();
+
+    fs.mkdirSync(dataDir, { recursive: true });
+
+    // No silent fallback: a JSON store next to an unreadable lenaer.db would look empty and drift from it
+    let store: MappingStore;
+    if (backend === 'sqlite') {
+        store = createSqliteStore(path.join(dataDir, 'lenaer.db'));
+    } else if (backend === 'json') {
+        store = createJsonStore(path.join(dataDir, 'lenaer-store.json'));
+    } else {
+        throw new Error(`[Store] Unknown STORE_BACKEND '${backend}' (expected 'sqlite' or 'json')`);
+    }
+
+    console.log(`[Store] Using ${store.backend} store in ${dataDir}`);
+
+    if (legacyFile) {
+        importLegacyThreadMap(store, legacyFile);
+    }
+
+    return store;
+}